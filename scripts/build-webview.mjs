@@ -6,13 +6,20 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const rootDir = path.resolve(__dirname, "..");
 
-await build({
-  entryPoints: [path.join(rootDir, "src/webview/main.ts")],
-  bundle: true,
-  platform: "browser",
-  format: "iife",
-  target: ["es2020"],
-  sourcemap: true,
-  outfile: path.join(rootDir, "media/webview.js")
-});
+const entries = [
+  ["src/webview/main.ts", "media/webview.js"],
+  ["src/webview/graph.ts", "media/graph.js"]
+];
+
+for (const [entry, outfile] of entries) {
+  await build({
+    entryPoints: [path.join(rootDir, entry)],
+    bundle: true,
+    platform: "browser",
+    format: "iife",
+    target: ["es2020"],
+    sourcemap: true,
+    outfile: path.join(rootDir, outfile)
+  });
+}
 
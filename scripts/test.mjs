@@ -0,0 +1,34 @@
+import { build } from "esbuild";
+import { spawnSync } from "node:child_process";
+import { readdirSync, rmSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const rootDir = path.resolve(__dirname, "..");
+const testDir = path.join(rootDir, "test");
+const outDir = path.join(rootDir, "out-test");
+
+// Unit tests run in plain Node: `vscode` resolves to an in-memory fake of the parts of the API the services use.
+const tests = readdirSync(testDir).filter((f) => f.endsWith(".test.ts"));
+
+rmSync(outDir, { recursive: true, force: true });
+await build({
+  absWorkingDir: rootDir,
+  entryPoints: tests.map((f) => path.join(testDir, f)),
+  bundle: true,
+  platform: "node",
+  format: "cjs",
+  target: ["node20"],
+  sourcemap: "inline",
+  outdir: outDir,
+  alias: { vscode: "./test/fakes/vscode.ts" },
+  external: ["jsdom"],
+  logLevel: "warning"
+});
+
+const result = spawnSync(process.execPath, ["--test", "--test-reporter=spec", ...tests.map((f) => path.join(outDir, f.replace(/\.ts$/, ".js")))], {
+  stdio: "inherit"
+});
+process.exit(result.status ?? 1);
@@ -1,8 +1,16 @@
 import * as vscode from "vscode";
 import { QuenchEditorProvider } from "./extension/QuenchEditorProvider";
+import { BacklinksProvider } from "./extension/BacklinksProvider";
+import { NoteGraphPanel } from "./extension/NoteGraphPanel";
+import { WorkspaceIndex } from "./extension/services/WorkspaceIndex";
+import { LinkRenameService } from "./extension/services/LinkRenameService";
+import { HeadingSymbolService } from "./extension/services/HeadingSymbolService";
 
 export function activate(context: vscode.ExtensionContext) {
-  const provider = new QuenchEditorProvider(context);
+  const workspaceIndex = new WorkspaceIndex(context.storageUri);
+  context.subscriptions.push(workspaceIndex);
+  void workspaceIndex.initialize();
+  const provider = new QuenchEditorProvider(context, workspaceIndex);
   context.subscriptions.push({ dispose: () => provider.dispose() });
   context.subscriptions.push(
     vscode.window.registerCustomEditorProvider(QuenchEditorProvider.viewType, provider, {
@@ -11,6 +19,12 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  context.subscriptions.push(new BacklinksProvider(workspaceIndex, provider.onDidChangeActiveDocument));
+  context.subscriptions.push(new LinkRenameService(workspaceIndex));
+  context.subscriptions.push(new HeadingSymbolService(workspaceIndex));
+  const noteGraph = new NoteGraphPanel(context, workspaceIndex, provider.onDidChangeActiveDocument);
+  context.subscriptions.push(noteGraph);
+
   context.subscriptions.push(
     vscode.commands.registerCommand("quench.reloadCss", async () => {
       await provider.reloadCssForAllEditors();
@@ -52,6 +66,31 @@ export function activate(context: vscode.ExtensionContext) {
       await provider.rebuildWorkspaceIndex();
     })
   );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("quench.goToNote", async () => {
+      await provider.goToNote();
+    })
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("quench.goToHeading", async () => {
+      await provider.goToHeadingInNote();
+    })
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("quench.insertFootnote", async () => {
+      await provider.insertFootnote();
+    })
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("quench.renumberFootnotes", async () => {
+      await provider.renumberFootnotes();
+    })
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("quench.pasteAsPlainText", async () => {
+      await provider.pasteAsPlainText();
+    })
+  );
   context.subscriptions.push(
     vscode.commands.registerCommand("quench.insertMarkdownLink", async () => {
       await provider.insertMarkdownLink();
@@ -62,11 +101,49 @@ export function activate(context: vscode.ExtensionContext) {
       await provider.insertLinkToHeading();
     })
   );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("quench.insertLinkToParagraph", async () => {
+      await provider.insertLinkToParagraph();
+    })
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("quench.renameHeading", async () => {
+      await provider.renameHeading();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("quench.convertLinksToReference", async () => {
+      await provider.convertLinkStyle("reference");
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("quench.convertLinksToInline", async () => {
+      await provider.convertLinkStyle("inline");
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("quench.showNoteGraph", () => {
+      noteGraph.show();
+    })
+  );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("quench.findUnusedAttachments", async () => {
+      await provider.findUnusedAttachments();
+    })
+  );
   context.subscriptions.push(
     vscode.commands.registerCommand("quench.insertImageFromFile", async () => {
       await provider.insertImageFromFile();
     })
   );
+  context.subscriptions.push(
+    vscode.commands.registerCommand("quench.insertAttachmentFromFile", async () => {
+      await provider.insertAttachmentFromFile();
+    })
+  );
   context.subscriptions.push(
     vscode.commands.registerCommand("quench.resizeImage", async () => {
       await provider.resizeImage();
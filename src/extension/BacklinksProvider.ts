@@ -0,0 +1,115 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { isMarkdownUri } from "./services/LinkService";
+import { Backlink, WorkspaceIndex } from "./services/WorkspaceIndex";
+
+type BacklinkNode =
+  | { kind: "source"; sourceUri: vscode.Uri; backlinks: Backlink[] }
+  | { kind: "occurrence"; backlink: Backlink };
+
+export class BacklinksProvider implements vscode.TreeDataProvider<BacklinkNode>, vscode.Disposable {
+  static readonly viewId = "quench.backlinks";
+
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly changeEmitter = new vscode.EventEmitter<BacklinkNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+  private readonly treeView: vscode.TreeView<BacklinkNode>;
+  private target: vscode.Uri | null = null;
+
+  constructor(
+    private readonly index: WorkspaceIndex,
+    onDidChangeActiveQuenchDocument: vscode.Event<vscode.Uri>
+  ) {
+    this.treeView = vscode.window.createTreeView(BacklinksProvider.viewId, {
+      treeDataProvider: this,
+      showCollapseAll: true
+    });
+    this.disposables.push(this.treeView);
+
+    onDidChangeActiveQuenchDocument((uri) => this.setTarget(uri), null, this.disposables);
+    vscode.window.onDidChangeActiveTextEditor(
+      (editor) => {
+        if (editor && isMarkdownUri(editor.document.uri)) this.setTarget(editor.document.uri);
+      },
+      null,
+      this.disposables
+    );
+    this.index.onDidUpdate(() => this.refresh(), null, this.disposables);
+
+    const initial = vscode.window.activeTextEditor?.document.uri;
+    if (initial && isMarkdownUri(initial)) this.setTarget(initial);
+    else this.refresh();
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables.length = 0;
+    this.changeEmitter.dispose();
+  }
+
+  getTreeItem(node: BacklinkNode): vscode.TreeItem {
+    if (node.kind === "source") {
+      const item = new vscode.TreeItem(
+        path.posix.basename(node.sourceUri.path),
+        vscode.TreeItemCollapsibleState.Expanded
+      );
+      item.resourceUri = node.sourceUri;
+      item.description = `${vscode.workspace.asRelativePath(node.sourceUri, false)} (${node.backlinks.length})`;
+      item.iconPath = vscode.ThemeIcon.File;
+      item.command = {
+        command: "vscode.open",
+        title: "Open",
+        arguments: [node.sourceUri]
+      };
+      return item;
+    }
+
+    const { sourceUri, link } = node.backlink;
+    const context = link.lineText.trim();
+    const item = new vscode.TreeItem(context.length > 0 ? context : link.href, vscode.TreeItemCollapsibleState.None);
+    item.description = `L${link.line + 1}`;
+    item.tooltip = `${vscode.workspace.asRelativePath(sourceUri, false)}:${link.line + 1}\n${link.lineText}`;
+    const selection = new vscode.Range(link.line, link.from, link.line, link.to);
+    item.command = {
+      command: "vscode.open",
+      title: "Open",
+      arguments: [sourceUri, { selection, preview: false }]
+    };
+    return item;
+  }
+
+  getChildren(node?: BacklinkNode): BacklinkNode[] {
+    if (node?.kind === "occurrence") return [];
+    if (node?.kind === "source") return node.backlinks.map((backlink) => ({ kind: "occurrence", backlink }));
+    if (!this.target) return [];
+
+    const bySource = new Map<string, Backlink[]>();
+    for (const backlink of this.index.getBacklinks(this.target)) {
+      const key = backlink.sourceUri.toString();
+      const list = bySource.get(key) ?? [];
+      list.push(backlink);
+      bySource.set(key, list);
+    }
+    return [...bySource.values()]
+      .map((backlinks) => ({ kind: "source" as const, sourceUri: backlinks[0].sourceUri, backlinks }))
+      .sort((a, b) => vscode.workspace.asRelativePath(a.sourceUri).localeCompare(vscode.workspace.asRelativePath(b.sourceUri)));
+  }
+
+  private setTarget(uri: vscode.Uri) {
+    if (this.target?.toString() === uri.toString()) return;
+    this.target = uri;
+    this.refresh();
+  }
+
+  private refresh() {
+    if (!this.target) {
+      this.treeView.description = undefined;
+      this.treeView.message = "Open a Markdown note to see its backlinks.";
+    } else {
+      const count = this.index.getBacklinks(this.target).length;
+      this.treeView.description = vscode.workspace.asRelativePath(this.target, false);
+      this.treeView.message = count === 0 ? "No backlinks found." : undefined;
+    }
+    this.changeEmitter.fire(undefined);
+  }
+}
@@ -0,0 +1,164 @@
+import * as vscode from "vscode";
+import { assertGraphToExtensionMessage, ExtensionToGraphMessage } from "../shared/noteGraph";
+import { QuenchEditorProvider } from "./QuenchEditorProvider";
+import { isMarkdownUri } from "./services/LinkService";
+import { buildNoteGraph } from "./services/NoteGraphService";
+import { WorkspaceIndex } from "./services/WorkspaceIndex";
+
+/** The "Quench: Show Note Graph" webview panel (one per window). */
+export class NoteGraphPanel implements vscode.Disposable {
+  static readonly viewType = "quench.noteGraph";
+
+  private readonly disposables: vscode.Disposable[] = [];
+  private panel: vscode.WebviewPanel | null = null;
+  private panelDisposables: vscode.Disposable[] = [];
+  private activeUri: vscode.Uri | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly index: WorkspaceIndex,
+    onDidChangeActiveQuenchDocument: vscode.Event<vscode.Uri>
+  ) {
+    onDidChangeActiveQuenchDocument((uri) => this.setActive(uri), null, this.disposables);
+    vscode.window.onDidChangeActiveTextEditor(
+      (editor) => {
+        if (editor && isMarkdownUri(editor.document.uri)) this.setActive(editor.document.uri);
+      },
+      null,
+      this.disposables
+    );
+    this.index.onDidUpdate(() => this.scheduleRefresh(), null, this.disposables);
+
+    const initial = vscode.window.activeTextEditor?.document.uri;
+    if (initial && isMarkdownUri(initial)) this.activeUri = initial;
+  }
+
+  show(): void {
+    if (this.panel) {
+      this.panel.reveal();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(NoteGraphPanel.viewType, "Note Graph", vscode.ViewColumn.Beside, {
+      enableScripts: true,
+      retainContextWhenHidden: true,
+      localResourceRoots: [vscode.Uri.joinPath(this.context.extensionUri, "media")]
+    });
+    this.panel = panel;
+    panel.webview.html = this.renderHtml(panel.webview);
+
+    panel.webview.onDidReceiveMessage(
+      async (raw) => {
+        try {
+          const msg = assertGraphToExtensionMessage(raw);
+          if (msg.type === "GRAPH_READY") {
+            this.postGraph();
+            return;
+          }
+          await this.openNote(vscode.Uri.parse(msg.id), msg.toSide ?? false);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          vscode.window.showErrorMessage(`Quench: Note graph error: ${message}`);
+        }
+      },
+      null,
+      this.panelDisposables
+    );
+    panel.onDidDispose(
+      () => {
+        this.panelDisposables.forEach((d) => d.dispose());
+        this.panelDisposables = [];
+        this.panel = null;
+      },
+      null,
+      this.panelDisposables
+    );
+  }
+
+  dispose(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.panel?.dispose();
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables.length = 0;
+  }
+
+  private setActive(uri: vscode.Uri) {
+    if (this.activeUri?.toString() === uri.toString()) return;
+    this.activeUri = uri;
+    this.post({ type: "GRAPH_ACTIVE_NOTE", activeId: uri.toString() });
+  }
+
+  private scheduleRefresh() {
+    if (!this.panel) return;
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.postGraph();
+    }, 500);
+  }
+
+  private postGraph() {
+    this.post({ type: "GRAPH_DATA", graph: buildNoteGraph(this.index), activeId: this.activeUri?.toString() ?? null });
+  }
+
+  private post(msg: ExtensionToGraphMessage) {
+    void this.panel?.webview.postMessage(msg);
+  }
+
+  private async openNote(uri: vscode.Uri, toSide: boolean) {
+    // Keep the graph visible: open next to it rather than in its editor group.
+    const graphColumn = this.panel?.viewColumn;
+    const viewColumn = toSide
+      ? vscode.ViewColumn.Beside
+      : graphColumn === vscode.ViewColumn.One
+        ? vscode.ViewColumn.Two
+        : vscode.ViewColumn.One;
+    await vscode.commands.executeCommand("vscode.openWith", uri, QuenchEditorProvider.viewType, {
+      viewColumn,
+      preview: false
+    });
+  }
+
+  private renderHtml(webview: vscode.Webview): string {
+    const nonce = getNonce();
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this.context.extensionUri, "media", "graph.js"));
+    const cssUri = webview.asWebviewUri(vscode.Uri.joinPath(this.context.extensionUri, "media", "graph.css"));
+    const csp = `default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';`;
+    return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta http-equiv="Content-Security-Policy" content="${csp}" />
+    <link rel="stylesheet" href="${cssUri}" />
+    <title>Note Graph</title>
+  </head>
+  <body>
+    <div id="toolbar">
+      <label>Scope
+        <select id="scope">
+          <option value="local">Local</option>
+          <option value="all">Whole workspace</option>
+        </select>
+      </label>
+      <label>Depth <input id="depth" type="number" min="1" max="5" value="2" /></label>
+      <label>Folder <select id="folder"><option value="">All folders</option></select></label>
+      <label>Tag <select id="tag"><option value="">All tags</option></select></label>
+      <label><input id="orphans" type="checkbox" checked /> Highlight orphans</label>
+      <span id="stats"></span>
+    </div>
+    <canvas id="graph"></canvas>
+    <div id="tooltip" hidden></div>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+  </body>
+</html>`;
+  }
+}
+
+function getNonce(): string {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let out = "";
+  for (let i = 0; i < 32; i++) out += chars[Math.floor(Math.random() * chars.length)];
+  return out;
+}
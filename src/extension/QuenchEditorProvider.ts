@@ -3,16 +3,38 @@ import { CssService } from "./services/CssService";
 import {
   assertWebviewToExtensionMessage,
   ExtensionToWebviewMessage,
+  LinkCompletionItem,
+  LinkDiagnostic,
   QuenchThemeKind,
   QuenchSettings,
   TextChange,
   WebviewToExtensionMessage
 } from "../shared/protocol";
-import { getQuenchSettings } from "./services/Settings";
+import { getLinkPathStyle, getQuenchSettings, getSlugStyle } from "./services/Settings";
 import { WorkspaceIndex } from "./services/WorkspaceIndex";
-import { createImageAttachment } from "./services/AttachmentService";
-import { computeRelativeMarkdownPath, getPreviewText, openLink } from "./services/LinkService";
-import { extractHeadings } from "./services/HeadingService";
+import { AttachmentHashIndex } from "./services/AttachmentHashIndex";
+import { assertAttachmentSize, createAttachment, guessImageMime, prepareImageForTextEditor } from "./services/AttachmentService";
+import {
+  computeMarkdownLinkPath,
+  extractMarkdownLinks,
+  findUndefinedReferences,
+  openLink,
+  resolveHrefToUri,
+  showTextDocumentAt
+} from "./services/LinkService";
+import { renderLinkPreview } from "./services/PreviewService";
+import { LinkDiagnosticsService } from "./services/LinkDiagnosticsService";
+import { LinkCompletionService } from "./services/LinkCompletionService";
+import { buildHeadingRenameEdit, findHeadingAtLine } from "./services/HeadingRenameService";
+import { convertToInlineLinks, convertToReferenceLinks } from "./services/ReferenceLinkService";
+import { findUnusedAttachments, UnusedAttachment } from "./services/UnusedAttachmentService";
+import { planParagraphAnchor } from "./services/ParagraphAnchorService";
+import { NoteMatch, searchNotes } from "./services/NoteSwitcherService";
+import { buildHeadingSymbols } from "./services/HeadingSymbolService";
+import { buildPastedFileLink } from "./services/PasteLinkService";
+import { buildDroppedFileLinks } from "./services/FileDropService";
+import { planFootnoteInsertion, renumberFootnotes } from "./services/FootnoteService";
+import { parseFileReference } from "../shared/pasteLinks";
 import * as path from "node:path";
 import { GlobalSettingsService, QuenchGlobalOverrides } from "./services/GlobalSettingsService";
 
@@ -24,17 +46,33 @@ type EditorInstance = {
   pendingApplyQueue: string[];
 };
 
+/** The note a command edits and its selection (document offsets). */
+type CommandTarget = {
+  document: vscode.TextDocument;
+  noteDir: vscode.Uri;
+  selection: { selectionFrom: number; selectionTo: number; selectedText: string };
+};
+
 export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
   static readonly viewType = "quench.markdownEditor";
 
   private readonly editorsByDocumentKey = new Map<string, Set<EditorInstance>>();
+  /** Heading lines to reveal once a Quench editor opened from a link has been resolved (keyed by document URI). */
+  private readonly pendingReveals = new Map<string, number>();
   private lastActiveEditor: EditorInstance | null = null;
-  private readonly workspaceIndex = new WorkspaceIndex();
+  private readonly activeDocumentEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChangeActiveDocument = this.activeDocumentEmitter.event;
   private currentThemeKind: QuenchThemeKind;
   private readonly globalSettings: GlobalSettingsService;
+  private readonly linkDiagnostics: LinkDiagnosticsService;
+  private readonly linkCompletions: LinkCompletionService;
+  private readonly attachmentHashes = new AttachmentHashIndex();
   private globalOverrides: QuenchGlobalOverrides | null = null;
 
-  constructor(private readonly context: vscode.ExtensionContext) {
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly workspaceIndex: WorkspaceIndex
+  ) {
     this.currentThemeKind = this.computeThemeKind(vscode.window.activeColorTheme.kind);
     this.globalSettings = new GlobalSettingsService(context);
     this.context.subscriptions.push(this.globalSettings);
@@ -45,13 +83,24 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
         this.broadcastSettingsUpdated();
       })
     );
+    this.linkDiagnostics = new LinkDiagnosticsService(workspaceIndex);
+    this.context.subscriptions.push(this.linkDiagnostics);
+    this.context.subscriptions.push(
+      this.linkDiagnostics.onDidRefresh(() => {
+        for (const set of this.editorsByDocumentKey.values()) {
+          for (const editor of set.values()) void this.postLinkDiagnostics(editor);
+        }
+      })
+    );
+    this.linkCompletions = new LinkCompletionService(workspaceIndex);
+    this.context.subscriptions.push(this.linkCompletions);
+    this.context.subscriptions.push(this.attachmentHashes);
     this.context.subscriptions.push(
       vscode.window.onDidChangeActiveColorTheme((theme) => {
         this.currentThemeKind = this.computeThemeKind(theme.kind);
         this.broadcastThemeChanged();
       })
     );
-    void this.workspaceIndex.rebuild();
     void this.reloadGlobalOverrides().then(() => {
       // If any editor opened before global overrides finished loading, update it now.
       void this.reloadCssForAllEditors();
@@ -60,7 +109,12 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
   }
 
   dispose() {
-    this.workspaceIndex.dispose();
+    this.activeDocumentEmitter.dispose();
+  }
+
+  private setLastActiveEditor(editor: EditorInstance) {
+    this.lastActiveEditor = editor;
+    this.activeDocumentEmitter.fire(editor.document.uri);
   }
 
   private async reloadGlobalOverrides() {
@@ -171,6 +225,24 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
     }
   }
 
+  private async postLinkDiagnostics(editor: EditorInstance): Promise<void> {
+    const document = editor.document;
+    const version = document.version;
+    let diagnostics: LinkDiagnostic[] = [];
+    if (getQuenchSettings(document.uri).linkDiagnostics) {
+      const text = document.getText();
+      const problems = await this.linkDiagnostics.findProblems(document.uri, extractMarkdownLinks(text), findUndefinedReferences(text));
+      // The document may have changed while targets were being checked; the next refresh will catch up.
+      if (document.version !== version) return;
+      diagnostics = problems.map((p) => ({
+        from: document.offsetAt(new vscode.Position(p.line, p.from)),
+        to: document.offsetAt(new vscode.Position(p.line, p.to)),
+        message: p.message
+      }));
+    }
+    editor.panel.webview.postMessage({ type: "LINK_DIAGNOSTICS", version, diagnostics } satisfies ExtensionToWebviewMessage);
+  }
+
   async reloadCssForAllEditors(): Promise<void> {
     const editors = [...this.editorsByDocumentKey.values()].flatMap((set) => [...set.values()]);
     await Promise.all(
@@ -312,11 +384,266 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
     await vscode.commands.executeCommand("vscode.openWith", uri, QuenchEditorProvider.viewType);
   }
 
+  private async openLinkFromEditor(editor: EditorInstance, href: string, toSide: boolean): Promise<void> {
+    const settings = this.getEffectiveSettings(editor.document.uri);
+    await openLink(editor.document.uri, href, {
+      toSide,
+      openMarkdown: async (doc, line, viewColumn) => {
+        if (!toSide && doc.uri.toString() === editor.document.uri.toString()) {
+          // In-document `#heading` link: scroll this webview instead of reopening the note.
+          if (line !== undefined) {
+            editor.panel.webview.postMessage({ type: "REVEAL", line } satisfies ExtensionToWebviewMessage);
+          }
+          return;
+        }
+        if (settings.openMarkdownLinksIn === "textEditor") {
+          await showTextDocumentAt(doc, line, viewColumn);
+          return;
+        }
+        await this.openInQuenchAt(doc.uri, line, viewColumn);
+      }
+    });
+  }
+
+  private async openInQuenchAt(uri: vscode.Uri, line: number | undefined, viewColumn: vscode.ViewColumn): Promise<void> {
+    const options = { viewColumn, preview: false };
+    if (line === undefined) {
+      await vscode.commands.executeCommand("vscode.openWith", uri, QuenchEditorProvider.viewType, options);
+      return;
+    }
+    const key = uri.toString();
+    this.pendingReveals.set(key, line);
+    await vscode.commands.executeCommand("vscode.openWith", uri, QuenchEditorProvider.viewType, options);
+    if (!this.pendingReveals.has(key)) return;
+
+    // The note was already open in Quench and only got focused; reveal in that panel.
+    this.pendingReveals.delete(key);
+    const set = this.editorsByDocumentKey.get(key);
+    const target = [...(set ?? [])].find((e) => e.panel.active) ?? [...(set ?? [])].find((e) => e.panel.visible);
+    target?.panel.webview.postMessage({ type: "REVEAL", line } satisfies ExtensionToWebviewMessage);
+  }
+
+  /**
+   * Quick switcher over the index: fuzzy matches file names, titles, aliases and headings (`note > heading`),
+   * opens the pick in Quench at the heading, and offers to create the note when nothing matches.
+   */
+  async goToNote(): Promise<void> {
+    type Item = vscode.QuickPickItem & { match?: NoteMatch; create?: string };
+    const quickPick = vscode.window.createQuickPick<Item>();
+    quickPick.placeholder = "Go to note by title, file name or alias (note > heading jumps to a heading)";
+
+    const update = () => {
+      const value = quickPick.value;
+      // Items are ranked here; alwaysShow keeps VS Code's own filter from hiding fuzzy matches.
+      const items: Item[] = searchNotes(this.workspaceIndex, value, 200).map((m) => ({
+        label: m.heading ? `$(symbol-field) ${m.title} > ${m.heading.text}` : `$(markdown) ${m.title}`,
+        description: m.relPath,
+        detail: m.alias ? `alias: ${m.alias}` : undefined,
+        alwaysShow: true,
+        match: m
+      }));
+      const name = value.split(">")[0]?.trim() ?? "";
+      if (items.length === 0 && name.length > 0) {
+        items.push({ label: `$(new-file) Create note "${name}"`, alwaysShow: true, create: name });
+      }
+      quickPick.items = items;
+    };
+    quickPick.onDidChangeValue(update);
+    update();
+
+    const picked = await new Promise<Item | undefined>((resolve) => {
+      quickPick.onDidAccept(() => {
+        resolve(quickPick.selectedItems[0]);
+        quickPick.hide();
+      });
+      quickPick.onDidHide(() => {
+        resolve(undefined);
+        quickPick.dispose();
+      });
+      quickPick.show();
+    });
+    if (!picked) return;
+
+    if (picked.match) {
+      await this.openInQuenchAt(picked.match.uri, picked.match.heading?.startLine, vscode.ViewColumn.Active);
+      return;
+    }
+    if (picked.create) {
+      try {
+        const uri = await this.createNote(picked.create);
+        await this.openInQuenchAt(uri, undefined, vscode.ViewColumn.Active);
+      } catch (err) {
+        vscode.window.showErrorMessage(`Quench: Failed to create note: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+
+  /**
+   * Go to Symbol in Editor for Quench: VS Code's own picker and the Outline only follow text editors,
+   * so the heading symbols are listed here and the webview scrolls along with the selection.
+   */
+  async goToHeadingInNote(): Promise<void> {
+    const editor = this.lastActiveEditor;
+    if (!editor || !editor.panel.active) {
+      await vscode.commands.executeCommand("workbench.action.gotoSymbol");
+      return;
+    }
+
+    type Item = vscode.QuickPickItem & { line: number };
+    const items: Item[] = [];
+    const walk = (symbols: vscode.DocumentSymbol[], depth: number) => {
+      for (const s of symbols) {
+        items.push({ label: `${"  ".repeat(depth)}$(symbol-string) ${s.name}`, description: s.detail, line: s.selectionRange.start.line });
+        walk(s.children, depth + 1);
+      }
+    };
+    walk(buildHeadingSymbols(editor.document), 0);
+    if (items.length === 0) {
+      vscode.window.showInformationMessage("Quench: No headings in this note.");
+      return;
+    }
+
+    const reveal = (line: number) => {
+      editor.panel.webview.postMessage({ type: "REVEAL", line } satisfies ExtensionToWebviewMessage);
+    };
+    const quickPick = vscode.window.createQuickPick<Item>();
+    quickPick.placeholder = "Go to heading";
+    quickPick.matchOnDescription = true;
+    quickPick.items = items;
+    quickPick.onDidChangeActive((active) => {
+      const item = active[0];
+      if (item) reveal(item.line);
+    });
+    quickPick.onDidAccept(() => {
+      const item = quickPick.selectedItems[0];
+      if (item) reveal(item.line);
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.show();
+  }
+
+  /** Creates `<name>.md` next to the active note (or in the first workspace folder); an existing file is reused. */
+  private async createNote(name: string): Promise<vscode.Uri> {
+    const active = this.lastActiveEditor?.document.uri ?? vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = active ? vscode.workspace.getWorkspaceFolder(active) : undefined;
+    const dir = activeFolder && active
+      ? active.with({ path: path.posix.dirname(active.path) })
+      : vscode.workspace.workspaceFolders?.[0]?.uri;
+    if (!dir) throw new Error("No workspace folder is open.");
+
+    const fileName = name.replace(/[\\/:*?"<>|]/g, "-").replace(/\.md$/i, "");
+    const uri = vscode.Uri.joinPath(dir, `${fileName}.md`);
+    try {
+      await vscode.workspace.fs.stat(uri);
+      return uri;
+    } catch {
+      // not exists -> create
+    }
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(`# ${name.replace(/\.md$/i, "")}\n`, "utf8"));
+    return uri;
+  }
+
   async rebuildWorkspaceIndex(): Promise<void> {
     await this.workspaceIndex.rebuild();
     vscode.window.showInformationMessage("Quench: Workspace index rebuilt.");
   }
 
+  async findUnusedAttachments(): Promise<void> {
+    let report;
+    try {
+      report = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: "Quench: Scanning attachments..." },
+        () => findUnusedAttachments(this.workspaceIndex)
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Quench: Failed to scan attachments: ${message}`);
+      return;
+    }
+
+    if (report.unusedAttachments.length > 0) {
+      await this.reviewUnusedAttachments(report.unusedAttachments);
+    } else {
+      vscode.window.showInformationMessage("Quench: No unused attachments found.");
+    }
+
+    const orphans = report.notesWithoutLinks;
+    if (orphans.length === 0) return;
+    const show = "Show Notes";
+    const picked = await vscode.window.showInformationMessage(
+      `Quench: ${orphans.length} note(s) have no inbound or outbound links.`,
+      show
+    );
+    if (picked !== show) return;
+    const note = await vscode.window.showQuickPick(
+      orphans.map((uri) => ({
+        label: this.workspaceIndex.getNote(uri)?.title ?? path.posix.basename(uri.path),
+        description: vscode.workspace.asRelativePath(uri),
+        uri
+      })),
+      { placeHolder: "Notes without inbound or outbound links", matchOnDescription: true }
+    );
+    if (note) await vscode.commands.executeCommand("vscode.openWith", note.uri, QuenchEditorProvider.viewType);
+  }
+
+  private async reviewUnusedAttachments(unused: UnusedAttachment[]): Promise<void> {
+    type Item = vscode.QuickPickItem & { uri: vscode.Uri };
+    const openButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon("go-to-file"), tooltip: "Open" };
+    const totalSize = unused.reduce((sum, a) => sum + a.size, 0);
+
+    const quickPick = vscode.window.createQuickPick<Item>();
+    quickPick.title = `Unused attachments: ${unused.length} file(s), ${formatBytes(totalSize)}`;
+    quickPick.placeholder = "Select files to move to the trash (only notes in the Quench index are checked)";
+    quickPick.canSelectMany = true;
+    quickPick.matchOnDescription = true;
+    quickPick.items = unused.map((a) => ({
+      label: path.posix.basename(a.uri.path),
+      description: vscode.workspace.asRelativePath(a.uri),
+      detail: formatBytes(a.size),
+      buttons: [openButton],
+      uri: a.uri
+    }));
+
+    const selected = await new Promise<readonly Item[] | undefined>((resolve) => {
+      quickPick.onDidTriggerItemButton((e) => {
+        void vscode.commands.executeCommand("vscode.open", e.item.uri, { preview: true, preserveFocus: true });
+      });
+      quickPick.onDidAccept(() => {
+        resolve(quickPick.selectedItems);
+        quickPick.hide();
+      });
+      quickPick.onDidHide(() => {
+        resolve(undefined);
+        quickPick.dispose();
+      });
+      quickPick.show();
+    });
+    if (!selected || selected.length === 0) return;
+
+    const confirm = "Move to Trash";
+    const answer = await vscode.window.showWarningMessage(
+      `Quench: Move ${selected.length} unused attachment(s) to the trash?`,
+      { modal: true, detail: selected.map((i) => i.description).join("\n") },
+      confirm
+    );
+    if (answer !== confirm) return;
+
+    const failed: string[] = [];
+    for (const item of selected) {
+      try {
+        await vscode.workspace.fs.delete(item.uri, { useTrash: true });
+      } catch (err) {
+        failed.push(`${item.description}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    if (failed.length > 0) {
+      vscode.window.showErrorMessage(`Quench: Failed to move ${failed.length} file(s) to the trash: ${failed.join("; ")}`);
+    }
+    const moved = selected.length - failed.length;
+    if (moved > 0) vscode.window.showInformationMessage(`Quench: Moved ${moved} unused attachment(s) to the trash.`);
+  }
+
   async createThemeCss(): Promise<void> {
     const folders = vscode.workspace.workspaceFolders ?? [];
     if (folders.length === 0) {
@@ -497,8 +824,7 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
     const target = await this.getCommandTarget();
     if (!target) return;
 
-    const folder = vscode.workspace.getWorkspaceFolder(target.document.uri);
-    const candidates = this.workspaceIndex.getMarkdownFiles(folder);
+    const candidates = this.workspaceIndex.getMarkdownFiles();
     if (candidates.length === 0) {
       vscode.window.showErrorMessage("Quench: No .md files found in the workspace.");
       return;
@@ -507,15 +833,21 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
     const items = candidates
       .filter((u) => u.toString() !== target.document.uri.toString())
       .map((u) => ({
-        label: vscode.workspace.asRelativePath(u, false),
-        description: "",
+        label: vscode.workspace.asRelativePath(u),
+        description: this.workspaceIndex.getNote(u)?.title ?? "",
         uri: u
       }));
 
     const picked = await vscode.window.showQuickPick(items, { placeHolder: "Select a Markdown file to link to" });
     if (!picked) return;
 
-    const rel = computeRelativeMarkdownPath(target.document.uri, picked.uri);
+    let rel: string;
+    try {
+      rel = computeMarkdownLinkPath(target.document.uri, picked.uri);
+    } catch (err) {
+      vscode.window.showErrorMessage(`Quench: Cannot link to this note: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
     const label =
       target.selection.selectedText.length > 0
         ? target.selection.selectedText
@@ -530,50 +862,224 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
     const target = await this.getCommandTarget();
     if (!target) return;
 
-    const folder = vscode.workspace.getWorkspaceFolder(target.document.uri);
-    const candidates = this.workspaceIndex.getMarkdownFiles(folder);
+    const candidates = this.workspaceIndex.getMarkdownFiles();
     if (candidates.length === 0) {
       vscode.window.showErrorMessage("Quench: No .md files found in the workspace.");
       return;
     }
 
     const fileItems = candidates.map((u) => ({
-      label: vscode.workspace.asRelativePath(u, false),
+      label: vscode.workspace.asRelativePath(u),
+      description: this.workspaceIndex.getNote(u)?.title ?? "",
       uri: u
     }));
 
     const pickedFile = await vscode.window.showQuickPick(fileItems, { placeHolder: "Select a Markdown file for heading links" });
     if (!pickedFile) return;
 
-    const doc = await vscode.workspace.openTextDocument(pickedFile.uri);
-    const headings = extractHeadings(doc.getText());
-    if (headings.length === 0) {
-      vscode.window.showErrorMessage("Quench: No headings found in the selected file.");
+    let rel: string;
+    try {
+      rel = computeMarkdownLinkPath(target.document.uri, pickedFile.uri);
+    } catch (err) {
+      vscode.window.showErrorMessage(`Quench: Cannot link to this note: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+
+    const linkTargets = await this.workspaceIndex.readLinkTargets(pickedFile.uri);
+    if (linkTargets.length === 0) {
+      vscode.window.showErrorMessage("Quench: No headings or anchors found in the selected file.");
       return;
     }
 
-    const headingItems = headings.map((h) => ({
-      label: `${"  ".repeat(Math.max(0, h.level - 1))}${h.text}`,
-      description: `#${h.slug}`,
-      heading: h
+    const headingItems = linkTargets.map((t) => ({
+      label:
+        t.level !== undefined ? `${"  ".repeat(Math.max(0, t.level - 1))}${t.label}` : `$(symbol-key) ${t.label}`,
+      description: `#${t.slug}`,
+      linkTarget: t
     }));
 
-    const pickedHeading = await vscode.window.showQuickPick(headingItems, { placeHolder: "Select a heading to link to" });
+    const pickedHeading = await vscode.window.showQuickPick(headingItems, { placeHolder: "Select a heading or anchor to link to" });
     if (!pickedHeading) return;
 
-    const rel = computeRelativeMarkdownPath(target.document.uri, pickedFile.uri);
-    const href = `${rel}#${pickedHeading.heading.slug}`;
-    const label = target.selection.selectedText.length > 0 ? target.selection.selectedText : pickedHeading.heading.text;
+    const href = `${rel}#${pickedHeading.linkTarget.slug}`;
+    const label = target.selection.selectedText.length > 0 ? target.selection.selectedText : pickedHeading.linkTarget.label;
     const insert = `[${label}](${href})`;
     await this.applyReplaceByOffsets(target.document, target.selection.selectionFrom, target.selection.selectionTo, insert, {
       ifSelectionNotEmpty: "replace"
     });
   }
 
-  async insertImageFromFile(): Promise<void> {
+  /**
+   * Gives the block at the cursor a stable ID (`{#id}` on headings, `<a id>` elsewhere) and copies a
+   * workspace-root link to it, so the link can be pasted into any note.
+   */
+  async insertLinkToParagraph(): Promise<void> {
+    const target = await this.getCommandTarget();
+    if (!target) return;
+
+    const document = target.document;
+    const line = document.positionAt(target.selection.selectionFrom).line;
+    let anchor: ReturnType<typeof planParagraphAnchor>;
+    let linkPath: string;
+    try {
+      anchor = planParagraphAnchor(document.getText(), line, getSlugStyle(document.uri));
+      // The link is meant to be pasted elsewhere, so it is never note-relative.
+      const style = getLinkPathStyle(document.uri) === "folderQualified" ? "folderQualified" : "workspaceRoot";
+      linkPath = computeMarkdownLinkPath(document.uri, document.uri, style);
+    } catch (err) {
+      vscode.window.showErrorMessage(`Quench: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+
+    if (anchor.insert) {
+      const edit = new vscode.WorkspaceEdit();
+      edit.insert(document.uri, new vscode.Position(anchor.insert.line, anchor.insert.column), anchor.insert.text);
+      const ok = await vscode.workspace.applyEdit(edit);
+      if (!ok) {
+        vscode.window.showErrorMessage("Quench: Failed to insert the anchor.");
+        return;
+      }
+    }
+
+    await vscode.env.clipboard.writeText(`[${anchor.label}](${linkPath}#${anchor.id})`);
+    vscode.window.showInformationMessage(`Quench: Copied link to #${anchor.id}.`);
+  }
+
+  /** Escape hatch for smart paste: inserts the clipboard text verbatim. */
+  async pasteAsPlainText(): Promise<void> {
+    const target = await this.getCommandTarget();
+    if (!target) return;
+    const text = await vscode.env.clipboard.readText();
+    if (text.length === 0) return;
+    await this.applyReplaceByOffsets(target.document, target.selection.selectionFrom, target.selection.selectionTo, text, {
+      ifSelectionNotEmpty: "replace"
+    });
+  }
+
+  /** Inserts `[^n]` at the cursor and an empty `[^n]: ` definition at the end, then moves the cursor into it. */
+  async insertFootnote(): Promise<void> {
+    const target = await this.getCommandTarget();
+    if (!target) return;
+
+    const document = target.document;
+    const plan = planFootnoteInsertion(document.getText(), target.selection.selectionTo);
+    const edit = new vscode.WorkspaceEdit();
+    for (const r of plan.replacements) {
+      edit.replace(document.uri, new vscode.Range(document.positionAt(r.from), document.positionAt(r.to)), r.text);
+    }
+    const ok = await vscode.workspace.applyEdit(edit);
+    if (!ok) {
+      vscode.window.showErrorMessage("Quench: Failed to insert the footnote.");
+      return;
+    }
+
+    const end = document.positionAt(plan.definitionEnd);
+    const quench = this.lastActiveEditor;
+    if (quench && quench.document === document) {
+      quench.panel.webview.postMessage({ type: "REVEAL", line: end.line, column: end.character } satisfies ExtensionToWebviewMessage);
+      return;
+    }
+    const editor = vscode.window.activeTextEditor;
+    if (editor?.document === document) {
+      editor.selection = new vscode.Selection(end, end);
+      editor.revealRange(new vscode.Range(end, end));
+    }
+  }
+
+  async renumberFootnotes(): Promise<void> {
+    const target = await this.getCommandTarget();
+    if (!target) return;
+
+    const document = target.document;
+    const renumbering = renumberFootnotes(document.getText());
+    if (renumbering.count === 0) {
+      vscode.window.showInformationMessage("Quench: Footnotes are already numbered in order.");
+      return;
+    }
+    const edit = new vscode.WorkspaceEdit();
+    for (const r of renumbering.replacements) {
+      edit.replace(document.uri, new vscode.Range(document.positionAt(r.from), document.positionAt(r.to)), r.text);
+    }
+    const ok = await vscode.workspace.applyEdit(edit);
+    if (!ok) {
+      vscode.window.showErrorMessage("Quench: Failed to renumber footnotes.");
+      return;
+    }
+    vscode.window.showInformationMessage(`Quench: Renumbered ${renumbering.count} footnote(s).`);
+  }
+
+  async convertLinkStyle(style: "inline" | "reference"): Promise<void> {
     const target = await this.getCommandTarget();
     if (!target) return;
 
+    const document = target.document;
+    const conversion = style === "inline" ? convertToInlineLinks(document.getText()) : convertToReferenceLinks(document.getText());
+    if (conversion.count === 0) {
+      vscode.window.showInformationMessage(
+        style === "inline" ? "Quench: No reference-style links to convert." : "Quench: No inline links to convert."
+      );
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const r of conversion.replacements) {
+      edit.replace(document.uri, new vscode.Range(document.positionAt(r.from), document.positionAt(r.to)), r.text);
+    }
+    const ok = await vscode.workspace.applyEdit(edit);
+    if (!ok) {
+      vscode.window.showErrorMessage("Quench: Failed to convert links.");
+      return;
+    }
+    vscode.window.showInformationMessage(`Quench: Converted ${conversion.count} link(s) to ${style} style.`);
+  }
+
+  async renameHeading(): Promise<void> {
+    const target = await this.getCommandTarget();
+    if (!target) return;
+    const line = target.document.positionAt(target.selection.selectionFrom).line;
+    await this.renameHeadingAt(target.document, line);
+  }
+
+  private async renameHeadingAt(document: vscode.TextDocument, line: number): Promise<void> {
+    const heading = findHeadingAtLine(document, line);
+    if (!heading) {
+      vscode.window.showErrorMessage("Quench: No heading found at the cursor.");
+      return;
+    }
+
+    const version = document.version;
+    const newText = await vscode.window.showInputBox({
+      prompt: `Rename heading (#${heading.slug})`,
+      value: heading.text,
+      valueSelection: [0, heading.text.length],
+      validateInput: (v) => (v.trim().length === 0 ? "Heading text must not be empty." : null)
+    });
+    if (newText === undefined || newText.trim() === heading.text) return;
+    if (document.version !== version) {
+      vscode.window.showErrorMessage("Quench: The document changed while renaming. Please try again.");
+      return;
+    }
+
+    try {
+      const plan = await buildHeadingRenameEdit(document, heading, newText.trim(), this.workspaceIndex);
+      const ok = await vscode.workspace.applyEdit(plan.edit);
+      if (!ok) throw new Error("Failed to apply WorkspaceEdit");
+      if (plan.oldSlug !== plan.newSlug) {
+        vscode.window.showInformationMessage(
+          `Quench: Renamed #${plan.oldSlug} → #${plan.newSlug} (${plan.referenceCount} reference(s) updated).`
+        );
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Quench: Failed to rename heading: ${message}`);
+    }
+  }
+
+  async insertImageFromFile(): Promise<void> {
+    const quench = this.lastActiveEditor;
+    const target = quench ? null : await this.getCommandTarget();
+    if (!quench && !target) return;
+
     const picked = await vscode.window.showOpenDialog({
       canSelectMany: false,
       openLabel: "Select an image to insert as an attachment",
@@ -585,18 +1091,97 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
 
     try {
       const uri = picked[0];
+      const name = path.posix.basename(uri.path);
       const bytes = await vscode.workspace.fs.readFile(uri);
-      const result = await createImageAttachment({
+      if (quench) {
+        this.attachInWebview(quench, bytes, name);
+        return;
+      }
+      if (!target) return;
+      await this.insertImageIntoTextEditor(target, bytes, name);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Quench: Failed to attach image: ${message}`);
+    }
+  }
+
+  /** Saves any file (within `quench.attachments.maxFileSizeMB`) as an attachment and links or embeds it. */
+  async insertAttachmentFromFile(): Promise<void> {
+    const quench = this.lastActiveEditor;
+    const target = quench ? null : await this.getCommandTarget();
+    const document = quench?.document ?? target?.document;
+    if (!document) return;
+
+    const picked = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      openLabel: "Select a file to insert as an attachment"
+    });
+    if (!picked || picked.length === 0) return;
+
+    try {
+      const uri = picked[0];
+      const name = path.posix.basename(uri.path);
+      const isImage = guessImageMime(name) !== undefined;
+      // Images are checked once processed; other files before they are read.
+      if (!isImage) assertAttachmentSize((await vscode.workspace.fs.stat(uri)).size, getQuenchSettings(document.uri).attachments);
+      const bytes = await vscode.workspace.fs.readFile(uri);
+      if (quench) {
+        this.attachInWebview(quench, bytes, name);
+        return;
+      }
+      if (!target) return;
+      if (isImage) {
+        await this.insertImageIntoTextEditor(target, bytes, name);
+        return;
+      }
+      const result = await createAttachment({
         fromDocumentUri: target.document.uri,
         bytes,
-        filenameHint: path.posix.basename(uri.path)
+        kind: "file",
+        filenameHint: name,
+        insertOffset: target.selection.selectionFrom,
+        hashIndex: this.attachmentHashes
       });
+      if (!result) return;
       await this.applyReplaceByOffsets(target.document, target.selection.selectionFrom, target.selection.selectionTo, result.markdown, {
         ifSelectionNotEmpty: "replace"
       });
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
-      vscode.window.showErrorMessage(`Quench: Failed to attach image: ${message}`);
+      vscode.window.showErrorMessage(`Quench: Failed to attach file: ${message}`);
+    }
+  }
+
+  /** Hands a picked file to the webview, which saves it like a pasted one (images optimized) at its selection then. */
+  private attachInWebview(editor: EditorInstance, bytes: Uint8Array, filename: string) {
+    const mime = guessImageMime(filename) ?? "application/octet-stream";
+    void editor.panel.webview.postMessage({ type: "ATTACH_FILE", bytes, filename, mime } satisfies ExtensionToWebviewMessage);
+  }
+
+  /** Text editors have no canvas: the image is only stripped of metadata (see `prepareImageForTextEditor`). */
+  private async insertImageIntoTextEditor(
+    target: CommandTarget,
+    bytes: Uint8Array,
+    filename: string
+  ): Promise<void> {
+    const settings = getQuenchSettings(target.document.uri).attachments;
+    const prepared = prepareImageForTextEditor(bytes, filename, settings);
+    const result = await createAttachment({
+      fromDocumentUri: target.document.uri,
+      bytes: prepared.bytes,
+      kind: "image",
+      filenameHint: filename,
+      insertOffset: target.selection.selectionFrom,
+      hashIndex: this.attachmentHashes
+    });
+    if (!result) return;
+    await this.applyReplaceByOffsets(target.document, target.selection.selectionFrom, target.selection.selectionTo, result.markdown, {
+      ifSelectionNotEmpty: "replace"
+    });
+    if (prepared.skippedResize) {
+      void vscode.window.showInformationMessage(
+        "Quench: The image was saved without conversion or resizing (quench.attachments.images.*), which only apply in the Quench editor."
+      );
     }
   }
 
@@ -742,6 +1327,8 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
     panel: vscode.WebviewPanel,
     _token: vscode.CancellationToken
   ): Promise<void> {
+    const revealLine = this.pendingReveals.get(document.uri.toString());
+    this.pendingReveals.delete(document.uri.toString());
     const folder = vscode.workspace.getWorkspaceFolder(document.uri);
     if (folder) {
       await this.ensureThemeCss(folder);
@@ -749,13 +1336,18 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
 
     panel.webview.options = {
       enableScripts: true,
-      localResourceRoots: [this.context.extensionUri, ...(vscode.workspace.workspaceFolders ?? []).map((f) => f.uri)]
+      localResourceRoots: [
+        this.context.extensionUri,
+        ...(vscode.workspace.workspaceFolders ?? []).map((f) => f.uri),
+        // A note opened from outside the workspace still shows the images next to it.
+        ...(folder ? [] : [vscode.Uri.joinPath(document.uri, "..")])
+      ]
     };
 
     const cssService = new CssService(document, panel, this.context);
     const editor: EditorInstance = { panel, document, cssService, disposables: [], pendingApplyQueue: [] };
     this.trackEditor(editor);
-    if (panel.active) this.lastActiveEditor = editor;
+    if (panel.active) this.setLastActiveEditor(editor);
 
     let gotAnyWebviewMessage = false;
     const bootTimeout = setTimeout(() => {
@@ -795,6 +1387,10 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
       settings: settingsEffective,
       cssText
     } satisfies ExtensionToWebviewMessage);
+    if (revealLine !== undefined) {
+      panel.webview.postMessage({ type: "REVEAL", line: revealLine } satisfies ExtensionToWebviewMessage);
+    }
+    void this.postLinkDiagnostics(editor);
 
     editor.disposables.push(
       vscode.workspace.onDidChangeTextDocument((e) => {
@@ -821,7 +1417,7 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
 
     editor.disposables.push(
       panel.onDidChangeViewState((e) => {
-        if (e.webviewPanel.active) this.lastActiveEditor = editor;
+        if (e.webviewPanel.active) this.setLastActiveEditor(editor);
       })
     );
   }
@@ -909,7 +1505,7 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
 
     if (msg.type === "OPEN_LINK") {
       try {
-        await openLink(editor.document.uri, msg.href);
+        await this.openLinkFromEditor(editor, msg.href, msg.toSide ?? false);
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         vscode.window.showErrorMessage(`Quench: Failed to open link: ${message}`);
@@ -919,12 +1515,16 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
 
     if (msg.type === "REQUEST_PREVIEW") {
       try {
-        const preview = await getPreviewText(editor.document.uri, msg.href);
+        const settings = getQuenchSettings(editor.document.uri);
+        const preview = await renderLinkPreview(editor.document.uri, msg.href, editor.panel.webview, {
+          allowExternalImages: settings.security.allowExternalImages
+        });
         editor.panel.webview.postMessage({
           type: "PREVIEW_RESULT",
           requestId: msg.requestId,
           title: preview.title,
-          text: preview.text
+          text: preview.text,
+          html: preview.html
         } satisfies ExtensionToWebviewMessage);
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
@@ -940,59 +1540,57 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
 
     if (msg.type === "REQUEST_RESOURCE_URI") {
       const settings = getQuenchSettings(editor.document.uri);
-      if (msg.kind === "image") {
-        const requestId = msg.requestId;
-        try {
-          if (/^https?:\/\//i.test(msg.href)) {
-            if (!settings.security.allowExternalImages) {
-              editor.panel.webview.postMessage({
-                type: "RESOURCE_URI_RESULT",
-                requestId,
-                ok: false,
-                error: "external_images_disabled"
-              } satisfies ExtensionToWebviewMessage);
-              return;
-            }
-            editor.panel.webview.postMessage({
-              type: "RESOURCE_URI_RESULT",
-              requestId,
-              ok: true,
-              uri: msg.href
-            } satisfies ExtensionToWebviewMessage);
-            return;
-          }
-
-          const from = editor.document.uri;
-          const { pathPart } = msg.href.includes("#") ? { pathPart: msg.href.split("#")[0] } : { pathPart: msg.href };
-          const resolved = path.posix.normalize(path.posix.join(path.posix.dirname(from.path), pathPart));
-          const target = from.with({ path: resolved });
-          try {
-            await vscode.workspace.fs.stat(target);
-          } catch {
+      const requestId = msg.requestId;
+      try {
+        if (msg.kind === "media" && !settings.security.allowHtmlEmbeds) throw new Error("html_embeds_disabled");
+        if (/^https?:\/\//i.test(msg.href)) {
+          if (!settings.security.allowExternalImages) {
             editor.panel.webview.postMessage({
               type: "RESOURCE_URI_RESULT",
               requestId,
               ok: false,
-              error: "not_found"
+              error: "external_images_disabled"
             } satisfies ExtensionToWebviewMessage);
             return;
           }
-          const uri = editor.panel.webview.asWebviewUri(target).toString();
           editor.panel.webview.postMessage({
             type: "RESOURCE_URI_RESULT",
             requestId,
             ok: true,
-            uri
+            uri: msg.href
           } satisfies ExtensionToWebviewMessage);
-        } catch (err) {
-          const message = err instanceof Error ? err.message : String(err);
+          return;
+        }
+
+        const resolved = resolveHrefToUri(editor.document.uri, msg.href);
+        if (resolved === "external") throw new Error("unsupported_scheme");
+        const target = resolved.targetUri;
+        try {
+          await vscode.workspace.fs.stat(target);
+        } catch {
           editor.panel.webview.postMessage({
             type: "RESOURCE_URI_RESULT",
             requestId,
             ok: false,
-            error: message
+            error: "not_found"
           } satisfies ExtensionToWebviewMessage);
+          return;
         }
+        const uri = editor.panel.webview.asWebviewUri(target).toString();
+        editor.panel.webview.postMessage({
+          type: "RESOURCE_URI_RESULT",
+          requestId,
+          ok: true,
+          uri
+        } satisfies ExtensionToWebviewMessage);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        editor.panel.webview.postMessage({
+          type: "RESOURCE_URI_RESULT",
+          requestId,
+          ok: false,
+          error: message
+        } satisfies ExtensionToWebviewMessage);
       }
       return;
     }
@@ -1003,16 +1601,21 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
         if (editor.document.version !== msg.baseVersion) {
           throw new Error("version_mismatch");
         }
-        const result = await createImageAttachment({
+        const result = await createAttachment({
           fromDocumentUri: editor.document.uri,
           bytes: msg.bytes,
+          kind: msg.kind,
           filenameHint: msg.filenameHint,
-          mime: msg.mime
+          mime: msg.mime,
+          insertOffset: msg.insertFrom,
+          hashIndex: this.attachmentHashes
         });
 
-        await this.applyReplaceByOffsets(editor.document, msg.insertFrom, msg.insertTo, result.markdown, {
-          ifSelectionNotEmpty: "replace"
-        });
+        if (result) {
+          await this.applyReplaceByOffsets(editor.document, msg.insertFrom, msg.insertTo, result.markdown, {
+            ifSelectionNotEmpty: "replace"
+          });
+        }
 
         editor.panel.webview.postMessage({
           type: "CREATE_ATTACHMENT_RESULT",
@@ -1041,23 +1644,48 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
       return;
     }
 
-    if (msg.type === "INSERT_IMAGE_REFERENCE") {
+    if (msg.type === "RENAME_HEADING") {
+      if (editor.document.version !== msg.baseVersion) {
+        vscode.window.showErrorMessage("Quench: The document changed or there are pending edits. Please try again.");
+        return;
+      }
+      await this.renameHeadingAt(editor.document, msg.line);
+      return;
+    }
+
+    if (msg.type === "REQUEST_LINK_COMPLETIONS") {
+      let items: LinkCompletionItem[] = [];
+      try {
+        items =
+          msg.kind === "heading"
+            ? await this.linkCompletions.getHeadingCompletions(editor.document.uri, msg.pathPart)
+            : await this.linkCompletions.getPathCompletions(editor.document.uri, msg.imagesOnly);
+      } catch (err) {
+        console.error("[quench] Link completion failed:", err);
+      }
+      editor.panel.webview.postMessage({
+        type: "LINK_COMPLETIONS_RESULT",
+        requestId: msg.requestId,
+        items
+      } satisfies ExtensionToWebviewMessage);
+      return;
+    }
+
+    if (msg.type === "INSERT_FILE_LINKS") {
       const requestId = msg.requestId;
       try {
         if (editor.document.version !== msg.baseVersion) {
           throw new Error("version_mismatch");
         }
-        const targetUri = vscode.Uri.parse(msg.targetUri);
-        const docFolder = vscode.workspace.getWorkspaceFolder(editor.document.uri);
-        const targetFolder = vscode.workspace.getWorkspaceFolder(targetUri);
-        if (!docFolder || !targetFolder || docFolder.uri.toString() !== targetFolder.uri.toString()) {
-          throw new Error("Only files under the same workspace root can be referenced as relative links.");
+        const targets = msg.targetUris.map((u) => vscode.Uri.parse(u));
+        let markdown = await buildDroppedFileLinks(editor.document.uri, targets, msg.copyExternal, this.attachmentHashes);
+        // A bullet list needs its own line.
+        if (markdown.includes("\n") && editor.document.positionAt(msg.insertFrom).character > 0) markdown = `\n${markdown}`;
+        if (markdown.length > 0) {
+          await this.applyReplaceByOffsets(editor.document, msg.insertFrom, msg.insertTo, markdown, {
+            ifSelectionNotEmpty: "replace"
+          });
         }
-        const rel = computeRelativeMarkdownPath(editor.document.uri, targetUri);
-        const markdown = `![](${rel})`;
-        await this.applyReplaceByOffsets(editor.document, msg.insertFrom, msg.insertTo, markdown, {
-          ifSelectionNotEmpty: "replace"
-        });
         editor.panel.webview.postMessage({
           type: "CREATE_ATTACHMENT_RESULT",
           requestId,
@@ -1083,6 +1711,35 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
       }
       return;
     }
+
+    if (msg.type === "PASTE_FILE_LINK") {
+      if (editor.document.version !== msg.baseVersion) {
+        vscode.window.showErrorMessage("Quench: The document changed while pasting. Please paste again.");
+        editor.pendingApplyQueue.length = 0;
+        editor.panel.webview.postMessage({
+          type: "DOC_RESYNC",
+          text: editor.document.getText(),
+          version: editor.document.version,
+          reason: "version_mismatch"
+        } satisfies ExtensionToWebviewMessage);
+        return;
+      }
+      const ref = parseFileReference(msg.text);
+      let link: string | null = null;
+      try {
+        link = ref ? await buildPastedFileLink(editor.document.uri, ref, msg.selectedText) : null;
+      } catch (err) {
+        vscode.window.showWarningMessage(`Quench: Pasted as plain text: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      try {
+        await this.applyReplaceByOffsets(editor.document, msg.insertFrom, msg.insertTo, link ?? msg.text, {
+          ifSelectionNotEmpty: "replace"
+        });
+      } catch (err) {
+        vscode.window.showErrorMessage(`Quench: Failed to paste: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      return;
+    }
   }
 
   private onDidChangeDocument(editor: EditorInstance, changes: readonly vscode.TextDocumentContentChangeEvent[]) {
@@ -1126,7 +1783,7 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
     <meta name="viewport" content="width=device-width, initial-scale=1.0" />
     <meta
       http-equiv="Content-Security-Policy"
-      content="default-src 'none'; img-src ${webview.cspSource} https: data:; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource}; connect-src ${webview.cspSource}; script-src 'nonce-${nonce}';"
+      content="default-src 'none'; img-src ${webview.cspSource} https: data:; media-src ${webview.cspSource} https:; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource}; connect-src ${webview.cspSource}; script-src 'nonce-${nonce}';"
     />
     <link rel="stylesheet" href="${baseCssUri}" />
     <style id="quench-user-css"></style>
@@ -1390,6 +2047,13 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
           <input type="checkbox" id="kb_disable_toggleHeading6" /> Disable
         </label>
       </div>
+      <label for="kb_renameHeading">Rename heading</label>
+      <div class="colorRow">
+        <input class="colorText" id="kb_renameHeading" type="text" placeholder="e.g. F2" />
+        <label style="display:flex; align-items:center; gap:6px; font-size:12px;">
+          <input type="checkbox" id="kb_disable_renameHeading" /> Disable
+        </label>
+      </div>
       <label for="kb_toggleBullets">Toggle bullets</label>
       <div class="colorRow">
         <input class="colorText" id="kb_toggleBullets" type="text" placeholder="e.g. Mod-'" />
@@ -1571,6 +2235,7 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
 	        "toggleHeading4",
 	        "toggleHeading5",
 	        "toggleHeading6",
+	        "renameHeading",
 	        "toggleBullets",
 	        "toggleCheckboxes",
 	        "selectNextOccurrence",
@@ -1840,14 +2505,7 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
     if (this.lastActiveEditor === editor) this.lastActiveEditor = null;
   }
 
-  private async getCommandTarget(): Promise<
-    | {
-        document: vscode.TextDocument;
-        noteDir: vscode.Uri;
-        selection: { selectionFrom: number; selectionTo: number; selectedText: string };
-      }
-    | null
-  > {
+  private async getCommandTarget(): Promise<CommandTarget | null> {
     // Prefer the Custom Editor (commands are designed to work inside Quench)
     const active = this.lastActiveEditor;
     if (active) {
@@ -1943,3 +2601,9 @@ export class QuenchEditorProvider implements vscode.CustomTextEditorProvider {
     if (!ok) throw new Error("Failed to apply WorkspaceEdit");
   }
 }
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
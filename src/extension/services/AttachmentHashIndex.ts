@@ -0,0 +1,119 @@
+import { createHash } from "node:crypto";
+import * as path from "node:path";
+import * as vscode from "vscode";
+
+type HashEntry = {
+  size: number;
+  /** SHA-256, computed only once a file of the same size is pasted. */
+  hash?: string;
+};
+
+/**
+ * Content hashes of existing attachments, so pasting the same image again can link the existing file.
+ * File lists (per extension) and hashes are computed on demand and dropped by a watcher when files change,
+ * so repeated pastes do not rescan or rehash anything.
+ */
+export class AttachmentHashIndex implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly entries = new Map<string, HashEntry>();
+  private readonly filesByExt = new Map<string, Promise<vscode.Uri[]>>();
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher("**/*");
+    this.disposables.push(watcher);
+    watcher.onDidCreate((uri) => this.forget(uri, true), null, this.disposables);
+    watcher.onDidChange((uri) => this.forget(uri, false), null, this.disposables);
+    watcher.onDidDelete((uri) => this.forget(uri, true), null, this.disposables);
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables.length = 0;
+  }
+
+  /**
+   * An existing file with the same extension and content as `bytes`: below `withinDir` (recursively),
+   * or anywhere in the workspace when it is omitted.
+   */
+  async findIdentical(bytes: Uint8Array, ext: string, withinDir?: vscode.Uri): Promise<vscode.Uri | undefined> {
+    let hash: string | undefined;
+    for (const uri of await this.candidates(ext.toLowerCase(), withinDir)) {
+      const entry = await this.describe(uri);
+      if (!entry || entry.size !== bytes.length) continue;
+      hash ??= sha256(bytes);
+      if (!entry.hash) {
+        try {
+          entry.hash = sha256(await vscode.workspace.fs.readFile(uri));
+        } catch {
+          this.entries.delete(uri.toString());
+          continue;
+        }
+      }
+      if (entry.hash === hash) return uri;
+    }
+    return undefined;
+  }
+
+  private async candidates(ext: string, withinDir: vscode.Uri | undefined): Promise<vscode.Uri[]> {
+    if (withinDir && !vscode.workspace.getWorkspaceFolder(withinDir)) {
+      // Outside the workspace there is no watcher or findFiles; list the folder itself.
+      try {
+        return (await vscode.workspace.fs.readDirectory(withinDir))
+          .filter(([name, type]) => type & vscode.FileType.File && path.posix.extname(name).toLowerCase() === `.${ext}`)
+          .map(([name]) => vscode.Uri.joinPath(withinDir, name));
+      } catch {
+        return [];
+      }
+    }
+
+    let files = this.filesByExt.get(ext);
+    if (!files) {
+      files = Promise.resolve(vscode.workspace.findFiles(`**/*.${caseInsensitiveGlob(ext)}`, "**/node_modules/**")).catch(() => {
+        this.filesByExt.delete(ext);
+        return [];
+      });
+      this.filesByExt.set(ext, files);
+    }
+    const all = await files;
+    if (!withinDir) return all;
+    const prefix = `${withinDir.toString().replace(/\/$/, "")}/`;
+    return all.filter((u) => u.toString().startsWith(prefix));
+  }
+
+  private async describe(uri: vscode.Uri): Promise<HashEntry | undefined> {
+    const key = uri.toString();
+    const cached = this.entries.get(key);
+    if (cached) return cached;
+    try {
+      const stat = await vscode.workspace.fs.stat(uri);
+      const entry: HashEntry = { size: stat.size };
+      this.entries.set(key, entry);
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private forget(uri: vscode.Uri, listChanged: boolean): void {
+    const key = uri.toString();
+    this.entries.delete(key);
+    if (!listChanged) return;
+    const ext = path.posix.extname(uri.path).replace(/^\./, "").toLowerCase();
+    if (ext) {
+      this.filesByExt.delete(ext);
+      return;
+    }
+    // Probably a folder: everything below it may have moved.
+    this.filesByExt.clear();
+    for (const k of [...this.entries.keys()]) if (k.startsWith(`${key}/`)) this.entries.delete(k);
+  }
+}
+
+/** `png` → `[pP][nN][gG]`: glob matching is case-sensitive, but `Photo.PNG` is as much a PNG as `photo.png`. */
+function caseInsensitiveGlob(ext: string): string {
+  return ext.replace(/[a-z]/g, (c) => `[${c}${c.toUpperCase()}]`);
+}
+
+function sha256(bytes: Uint8Array): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
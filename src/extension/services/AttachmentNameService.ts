@@ -0,0 +1,132 @@
+import { createHash } from "node:crypto";
+import * as path from "node:path";
+
+/**
+ * `quench.attachments.nameTemplate` and `{token}`s in the attachment folder settings.
+ *
+ * Tokens: `{note}`, `{heading}` (slug of the heading above the insertion point), `{originalName}`,
+ * `{hash}` / `{hash:12}` (SHA-256 of the content), `{date}` / `{date:YYYY-MM-DD}`, `{time}` / `{time:HHmmss}`,
+ * `{counter}` / `{counter:3}` (smallest free number, zero-padded) and `{prompt}` / `{prompt:default}` (asks for a name).
+ * `/` in a template creates subfolders. The file extension is never part of the template.
+ */
+
+export type AttachmentTemplateValues = {
+  /** Note file name without extension. */
+  note: string;
+  heading?: string;
+  /** Original file name without extension (pasted files and files from disk). */
+  originalName?: string;
+  bytes?: Uint8Array;
+  now: Date;
+  prompt?: string;
+  counter?: number;
+};
+
+const TOKEN_RE = /\{([A-Za-z]+)(?::([^{}]*))?\}/g;
+const TOKENS = new Set(["note", "heading", "originalName", "hash", "date", "time", "counter", "prompt"]);
+const INVALID_LITERAL_RE = /[\\:*?"<>|\u0000-\u001f]/;
+
+/** Templates equivalent to the fixed `quench.attachments.naming` modes. */
+export const NAMING_TEMPLATES = {
+  timestamp: "{date:YYYYMMDD}-{time}",
+  noteNameTimestamp: "{note}-{date:YYYYMMDD}-{time}"
+} as const;
+
+export function templateUsesToken(template: string, token: string): boolean {
+  return [...template.matchAll(TOKEN_RE)].some((m) => m[1] === token);
+}
+
+/** The `default` of the first `{prompt:default}`, or `""`. */
+export function templatePromptDefault(template: string): string {
+  const m = [...template.matchAll(TOKEN_RE)].find((t) => t[1] === "prompt");
+  return m?.[2] ?? "";
+}
+
+/** Throws on unknown tokens and on literal characters that cannot appear in a path. */
+export function validateAttachmentTemplate(template: string, setting: string): void {
+  for (const m of template.matchAll(TOKEN_RE)) {
+    if (!TOKENS.has(m[1] ?? "")) throw new Error(`Unknown token ${m[0]} in ${setting}.`);
+  }
+  if (INVALID_LITERAL_RE.test(template.replace(TOKEN_RE, ""))) {
+    throw new Error(`${setting} contains a character that is not allowed in file names.`);
+  }
+}
+
+/**
+ * Expands `template` into a relative path (`a/b/name`, no extension). Token values are made file-name safe;
+ * segments left empty by missing values (e.g. no heading above the cursor) are dropped.
+ */
+export function expandAttachmentTemplate(template: string, values: AttachmentTemplateValues, setting: string): string {
+  validateAttachmentTemplate(template, setting);
+  const expanded = template.replace(TOKEN_RE, (_m, token: string, arg: string | undefined) =>
+    safeSegment(tokenValue(token, arg, values))
+  );
+  const segments = expanded
+    .split("/")
+    .map((s) => s.trim().replace(/^[-_.]+|[-_.]+$/g, ""))
+    .filter((s) => s.length > 0);
+  if (segments.some((s) => s === "." || s === "..")) throw new Error(`${setting} must not contain "." or ".." segments.`);
+  return segments.join("/");
+}
+
+/** `{token}`-free leading segments of `template`: the folder that holds what it expands to, for every note. */
+export function templateStaticPrefix(template: string): string {
+  const segments = template.split("/");
+  const firstToken = segments.findIndex((s) => /\{[A-Za-z]+(?::[^{}]*)?\}/.test(s));
+  return (firstToken === -1 ? segments : segments.slice(0, firstToken)).join("/");
+}
+
+function tokenValue(token: string, arg: string | undefined, values: AttachmentTemplateValues): string {
+  switch (token) {
+    case "note":
+      return values.note;
+    case "heading":
+      return values.heading ?? "";
+    case "originalName":
+      return values.originalName ?? "";
+    case "hash": {
+      const length = clamp(Number.parseInt(arg ?? "8", 10) || 8, 4, 64);
+      return createHash("sha256")
+        .update(values.bytes ?? new Uint8Array())
+        .digest("hex")
+        .slice(0, length);
+    }
+    case "date":
+      return formatDate(values.now, arg ?? "YYYYMMDD");
+    case "time":
+      return formatDate(values.now, arg ?? "HHmmss");
+    case "counter":
+      return String(values.counter ?? 1).padStart(clamp(Number.parseInt(arg ?? "1", 10) || 1, 1, 10), "0");
+    case "prompt":
+      return values.prompt ?? arg ?? "";
+    default:
+      return "";
+  }
+}
+
+function formatDate(now: Date, format: string): string {
+  const pad2 = (n: number) => String(n).padStart(2, "0");
+  const parts: Record<string, string> = {
+    YYYY: String(now.getFullYear()),
+    YY: String(now.getFullYear()).slice(-2),
+    MM: pad2(now.getMonth() + 1),
+    DD: pad2(now.getDate()),
+    HH: pad2(now.getHours()),
+    mm: pad2(now.getMinutes()),
+    ss: pad2(now.getSeconds())
+  };
+  return format.replace(/YYYY|YY|MM|DD|HH|mm|ss/g, (t) => parts[t] ?? t);
+}
+
+function safeSegment(value: string): string {
+  return value.replace(/[^\p{L}\p{N}_.-]+/gu, "-").replace(/-+/g, "-").replace(/^[-.]+|[-.]+$/g, "");
+}
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, n));
+}
+
+/** File name without extension, as used for `{note}` / `{originalName}`. */
+export function baseNameOf(filePath: string): string {
+  return path.posix.basename(filePath, path.posix.extname(filePath));
+}
@@ -1,62 +1,334 @@
 import * as path from "node:path";
 import * as vscode from "vscode";
-import { getQuenchSettings } from "./Settings";
-import { computeRelativeMarkdownPath } from "./LinkService";
+import { AttachmentHashIndex } from "./AttachmentHashIndex";
+import {
+  AttachmentTemplateValues,
+  baseNameOf,
+  expandAttachmentTemplate,
+  NAMING_TEMPLATES,
+  templateStaticPrefix,
+  templatePromptDefault,
+  templateUsesToken
+} from "./AttachmentNameService";
+import { extractHeadings } from "./HeadingService";
+import { getQuenchSettings, getSlugStyle } from "./Settings";
+import { jpegOrientation, stripImageMetadata } from "../../shared/imageMetadata";
+import { computeMarkdownLinkPath } from "./LinkService";
 
 export type CreateAttachmentInput = {
   fromDocumentUri: vscode.Uri;
   bytes: Uint8Array;
+  /** `image` is embedded with `![](...)`; any other file gets a link, or an `<audio>`/`<video>` embed. */
+  kind: "image" | "file";
   filenameHint?: string;
   mime?: string;
+  /** Where the link will be inserted; `{heading}` names the heading above it. */
+  insertOffset?: number;
+  /** Looks up identical files for `quench.attachments.deduplicate`; no lookup without it. */
+  hashIndex?: AttachmentHashIndex;
 };
 
 export type CreateAttachmentResult = {
   savedUri: vscode.Uri;
   markdown: string;
+  /** An identical file already existed and is linked instead of writing a copy. */
+  reused: boolean;
 };
 
-export async function createImageAttachment(input: CreateAttachmentInput): Promise<CreateAttachmentResult> {
+type AttachmentSettings = ReturnType<typeof getQuenchSettings>["attachments"];
+
+const AUDIO_EXTS = new Set([".mp3", ".wav", ".ogg", ".oga", ".opus", ".m4a", ".aac", ".flac"]);
+const VIDEO_EXTS = new Set([".mp4", ".webm", ".ogv", ".mov", ".m4v"]);
+
+const IMAGE_EXT_MIMES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".bmp": "image/bmp",
+  ".avif": "image/avif"
+};
+
+const FILE_MIME_EXTS: Record<string, string> = {
+  "application/pdf": "pdf",
+  "application/zip": "zip",
+  "application/json": "json",
+  "text/plain": "txt",
+  "text/csv": "csv",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/flac": "flac",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+  "video/quicktime": "mov"
+};
+
+/**
+ * Saves pasted/dropped bytes as an attachment and returns the Markdown that links it.
+ * `undefined` when the user cancels the `{prompt}` name input.
+ */
+export async function createAttachment(input: CreateAttachmentInput): Promise<CreateAttachmentResult | undefined> {
   const settings = getQuenchSettings(input.fromDocumentUri);
-  const folder = vscode.workspace.getWorkspaceFolder(input.fromDocumentUri);
-  if (!folder) throw new Error("Cannot save attachments for documents outside a workspace.");
+  assertAttachmentSize(input.bytes.length, settings.attachments);
+  const ext =
+    input.kind === "image" ? (guessImageExt(input.filenameHint, input.mime) ?? "png") : guessFileExt(input.filenameHint, input.mime);
+  const markdownFor = (uri: vscode.Uri) =>
+    input.kind === "image"
+      ? `![](${computeMarkdownLinkPath(input.fromDocumentUri, uri)})`
+      : fileLinkMarkdown(input.fromDocumentUri, uri, input.filenameHint ?? path.posix.basename(uri.path));
 
-  const noteDir = input.fromDocumentUri.with({ path: path.posix.dirname(input.fromDocumentUri.path) });
-  const baseDir = resolveAttachmentBaseDir(folder.uri, noteDir, settings.attachments.location, settings.attachments);
-  await vscode.workspace.fs.createDirectory(baseDir);
+  const existing = await findIdenticalAttachment(input.fromDocumentUri, input.bytes, ext, input.hashIndex);
+  if (existing) return { savedUri: existing, markdown: markdownFor(existing), reused: true };
 
-  const ext = guessImageExt(input.filenameHint, input.mime) ?? "png";
-  const baseName = createBaseName(input.fromDocumentUri, settings.attachments.naming);
-  const initial = `${baseName}.${ext}`;
+  const values = await collectTemplateValues(input.fromDocumentUri, {
+    bytes: input.bytes,
+    originalName: input.filenameHint ? baseNameOf(input.filenameHint) : undefined,
+    insertOffset: input.insertOffset
+  });
+  if (!values) return undefined;
 
-  const targetUri = await allocateUniqueUri(baseDir, initial);
+  const targetUri = await allocateAttachmentUri(input.fromDocumentUri, values, ext);
   await vscode.workspace.fs.writeFile(targetUri, input.bytes);
+  return { savedUri: targetUri, markdown: markdownFor(targetUri), reused: false };
+}
+
+/**
+ * `[label](path)` for a linked file; audio and video become `<audio controls>` / `<video controls>` embeds
+ * when `quench.security.allowHtmlEmbeds` is on.
+ */
+export function fileLinkMarkdown(fromDocumentUri: vscode.Uri, target: vscode.Uri, label: string): string {
+  const rel = computeMarkdownLinkPath(fromDocumentUri, target);
+  const ext = path.posix.extname(target.path).toLowerCase();
+  if (getQuenchSettings(fromDocumentUri).security.allowHtmlEmbeds) {
+    const src = rel.replace(/"/g, "%22");
+    if (AUDIO_EXTS.has(ext)) return `<audio controls src="${src}"></audio>`;
+    if (VIDEO_EXTS.has(ext)) return `<video controls src="${src}"></video>`;
+  }
+  return `[${label.replace(/([[\]])/g, "\\$1")}](${rel})`;
+}
+
+/** Throws when `size` (bytes) exceeds `quench.attachments.maxFileSizeMB`. */
+export function assertAttachmentSize(size: number, settings: AttachmentSettings): void {
+  if (settings.maxFileSizeMB > 0 && size > settings.maxFileSizeMB * 1024 * 1024) {
+    const mb = (size / 1024 / 1024).toFixed(1);
+    throw new Error(`The file is ${mb} MB, larger than quench.attachments.maxFileSizeMB (${settings.maxFileSizeMB} MB).`);
+  }
+}
+
+export type ImageFileForTextEditor = {
+  bytes: Uint8Array;
+  /** `quench.attachments.images.format` / `maxWidth` / `maxHeight` ask for more than the extension host can do. */
+  skippedResize: boolean;
+};
+
+/**
+ * Applies `quench.attachments.images.*` to an image inserted into a text editor, where there is no canvas to decode
+ * and re-encode it: only metadata stripping. A rotated JPEG keeps its EXIF, since dropping the orientation without
+ * re-encoding would turn the image.
+ */
+export function prepareImageForTextEditor(bytes: Uint8Array, filename: string, settings: AttachmentSettings): ImageFileForTextEditor {
+  const images = settings.images;
+  const mime = guessImageMime(filename);
+  const wantsReencode = images.format !== "keep" || images.maxWidth > 0 || images.maxHeight > 0;
+  const skippedResize = wantsReencode && mime !== "image/svg+xml" && mime !== "image/gif";
+  if (!images.stripMetadata || !mime || (mime === "image/jpeg" && jpegOrientation(bytes) > 1)) return { bytes, skippedResize };
+  return { bytes: stripImageMetadata(bytes, mime), skippedResize };
+}
+
+/** The MIME type of an image file name, or `undefined` for other files. */
+export function guessImageMime(filename: string): string | undefined {
+  return IMAGE_EXT_MIMES[path.posix.extname(filename).toLowerCase()];
+}
+
+/**
+ * Copies a file from outside the workspace into the note's attachment folder, or returns an identical file
+ * that is already there (`quench.attachments.deduplicate`). Keeps its file name unless `quench.attachments.naming`
+ * is `template`. `undefined` when the user cancels the `{prompt}` name input.
+ */
+export async function copyFileAttachment(
+  fromDocumentUri: vscode.Uri,
+  source: vscode.Uri,
+  hashIndex?: AttachmentHashIndex
+): Promise<vscode.Uri | undefined> {
+  const settings = getQuenchSettings(fromDocumentUri).attachments;
+  const templated = settings.naming === "template";
+  const ext = path.posix.extname(source.path).replace(/^\./, "");
+  const needsBytes = (hashIndex && settings.deduplicate !== "off") || (templated && templateUsesToken(settings.nameTemplate, "hash"));
+  assertAttachmentSize((await vscode.workspace.fs.stat(source)).size, settings);
+  const bytes = needsBytes ? await vscode.workspace.fs.readFile(source) : undefined;
+  const existing = bytes ? await findIdenticalAttachment(fromDocumentUri, bytes, ext, hashIndex) : undefined;
+  if (existing) return existing;
+
+  const values = await collectTemplateValues(fromDocumentUri, { bytes, originalName: baseNameOf(source.path) });
+  if (!values) return undefined;
+
+  const targetUri = await allocateAttachmentUri(fromDocumentUri, values, ext, templated ? undefined : path.posix.basename(source.path));
+  await vscode.workspace.fs.copy(source, targetUri);
+  return targetUri;
+}
+
+/**
+ * An existing file with the same content, searched below the note's attachment folder (the part shared by all
+ * notes when the folder is templated) or in the whole workspace, as `quench.attachments.deduplicate` says.
+ */
+async function findIdenticalAttachment(
+  fromDocumentUri: vscode.Uri,
+  bytes: Uint8Array,
+  ext: string,
+  hashIndex: AttachmentHashIndex | undefined
+): Promise<vscode.Uri | undefined> {
+  const settings = getQuenchSettings(fromDocumentUri).attachments;
+  if (!hashIndex || settings.deduplicate === "off") return undefined;
+
+  let withinDir: vscode.Uri | undefined;
+  if (settings.deduplicate === "attachmentFolder") {
+    const folder = vscode.workspace.getWorkspaceFolder(fromDocumentUri);
+    const noteDir = fromDocumentUri.with({ path: path.posix.dirname(fromDocumentUri.path) });
+    try {
+      withinDir = resolveAttachmentBaseDir(folder?.uri, noteDir, settings.location, settings);
+    } catch {
+      return undefined; // saving reports the problem
+    }
+  }
+  const existing = await hashIndex.findIdentical(bytes, ext, withinDir);
+  if (existing) {
+    vscode.window.setStatusBarMessage(`Quench: Linked the identical ${vscode.workspace.asRelativePath(existing)}`, 5000);
+  }
+  return existing;
+}
+
+async function collectTemplateValues(
+  fromDocumentUri: vscode.Uri,
+  source: { bytes?: Uint8Array; originalName?: string; insertOffset?: number }
+): Promise<AttachmentTemplateValues | undefined> {
+  const settings = getQuenchSettings(fromDocumentUri).attachments;
+  const values: AttachmentTemplateValues = {
+    note: baseNameOf(fromDocumentUri.path),
+    heading: headingAbove(fromDocumentUri, source.insertOffset),
+    originalName: source.originalName,
+    bytes: source.bytes,
+    now: new Date()
+  };
 
-  const rel = computeRelativeMarkdownPath(input.fromDocumentUri, targetUri);
-  const markdown = `![](${rel})`;
-  return { savedUri: targetUri, markdown };
+  const templates = [nameTemplateOf(settings), settings.folderPath, settings.subfolderName];
+  const promptTemplate = templates.find((t) => templateUsesToken(t, "prompt"));
+  if (promptTemplate !== undefined) {
+    const answer = await vscode.window.showInputBox({
+      prompt: "Attachment name",
+      value: templatePromptDefault(promptTemplate) || (source.originalName ?? ""),
+      validateInput: (v) => (v.trim().length === 0 ? "Enter a name." : undefined)
+    });
+    if (answer === undefined) return undefined;
+    values.prompt = answer.trim();
+  }
+  return values;
+}
+
+function nameTemplateOf(settings: AttachmentSettings): string {
+  return settings.naming === "template" ? settings.nameTemplate : NAMING_TEMPLATES[settings.naming];
+}
+
+/** Slug of the last heading at or above `offset` in the open document, if any. */
+function headingAbove(uri: vscode.Uri, offset: number | undefined): string | undefined {
+  if (offset === undefined) return undefined;
+  const doc = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString());
+  if (!doc) return undefined;
+  const line = doc.positionAt(offset).line;
+  const headings = extractHeadings(doc.getText(), getSlugStyle(uri)).filter((h) => h.startLine <= line);
+  return headings[headings.length - 1]?.slug;
+}
+
+/**
+ * Expands the attachment folder and name templates into a file that does not exist yet, creating its folder.
+ * `{counter}` counts up to the first free name; otherwise collisions get `-2`, `-3`, ...
+ * A `fileName` is used as is instead of the name template.
+ */
+async function allocateAttachmentUri(
+  fromDocumentUri: vscode.Uri,
+  values: AttachmentTemplateValues,
+  ext: string,
+  fileName?: string
+): Promise<vscode.Uri> {
+  const settings = getQuenchSettings(fromDocumentUri).attachments;
+  const folder = vscode.workspace.getWorkspaceFolder(fromDocumentUri);
+  const noteDir = fromDocumentUri.with({ path: path.posix.dirname(fromDocumentUri.path) });
+  const baseDir = resolveAttachmentBaseDir(folder?.uri, noteDir, settings.location, settings, (template, setting) =>
+    expandAttachmentTemplate(template, values, setting)
+  );
+
+  const template = nameTemplateOf(settings);
+  const setting = "quench.attachments.nameTemplate";
+  const expand = (counter?: number): vscode.Uri => {
+    if (fileName !== undefined) return vscode.Uri.joinPath(baseDir, fileName);
+    const rel = expandAttachmentTemplate(template, { ...values, counter }, setting);
+    const name = rel.length > 0 ? rel : expandAttachmentTemplate(NAMING_TEMPLATES.timestamp, values, setting);
+    return vscode.Uri.joinPath(baseDir, ext.length > 0 ? `${name}.${ext}` : name);
+  };
+
+  let targetUri: vscode.Uri | undefined;
+  if (fileName === undefined && templateUsesToken(template, "counter")) {
+    for (let counter = 1; counter <= 1000 && !targetUri; counter++) {
+      const candidate = expand(counter);
+      if (!(await exists(candidate))) targetUri = candidate;
+    }
+    if (!targetUri) throw new Error("Too many attachment filename collisions (tried 1000 candidates).");
+  } else {
+    const first = expand();
+    targetUri = await allocateUniqueUri(vscode.Uri.joinPath(first, ".."), path.posix.basename(first.path));
+  }
+  await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(targetUri, ".."));
+  return targetUri;
 }
 
-function resolveAttachmentBaseDir(
-  workspaceRoot: vscode.Uri,
+/**
+ * The attachment folder for a note in `noteDir`. `workspaceRoot` is the root of the note's workspace folder;
+ * without one (a note opened from outside the workspace) only the note-relative locations can be used.
+ * `{token}`s in `folderPath` / `subfolderName` are filled in by `expand`; without it the folder is cut before
+ * the first templated segment, which is the folder all notes' attachments share.
+ */
+export function resolveAttachmentBaseDir(
+  workspaceRoot: vscode.Uri | undefined,
   noteDir: vscode.Uri,
   location: "workspaceRoot" | "specifiedFolder" | "sameFolder" | "subfolder",
-  attachments: { folderPath: string; subfolderName: string }
+  attachments: { folderPath: string; subfolderName: string },
+  expand?: (template: string, setting: string) => string
 ): vscode.Uri {
+  const requireRoot = (): vscode.Uri => {
+    if (workspaceRoot) return workspaceRoot;
+    throw new Error(
+      `This note is outside the workspace, so it has no workspace attachment folder. Set quench.attachments.location to "sameFolder" or "subfolder" to attach files next to it.`
+    );
+  };
+  const relativeFolder = (base: vscode.Uri, template: string, setting: string): vscode.Uri => {
+    const value = expand ? expand(template, `quench.attachments.${setting}`) : templateStaticPrefix(template);
+    if (!expand && value.trim().length === 0) return base;
+    const rel = validateWorkspaceRelativePath(value);
+    if (!rel.ok) throw new Error(`Invalid attachments.${setting}: ${rel.reason}`);
+    return vscode.Uri.joinPath(base, rel.path);
+  };
   switch (location) {
     case "workspaceRoot":
-      return workspaceRoot;
-    case "specifiedFolder": {
-      const rel = validateWorkspaceRelativePath(attachments.folderPath);
-      if (!rel.ok) throw new Error(`Invalid attachments.folderPath: ${rel.reason}`);
-      return vscode.Uri.joinPath(workspaceRoot, rel.path);
-    }
+      return requireRoot();
+    case "specifiedFolder":
+      return relativeFolder(requireRoot(), attachments.folderPath, "folderPath");
     case "sameFolder":
       return noteDir;
-    case "subfolder": {
-      const name = validateSinglePathSegment(attachments.subfolderName);
-      if (!name.ok) throw new Error(`Invalid attachments.subfolderName: ${name.reason}`);
-      return vscode.Uri.joinPath(noteDir, name.segment);
-    }
+    case "subfolder":
+      return relativeFolder(noteDir, attachments.subfolderName, "subfolderName");
+  }
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
   }
 }
 
@@ -78,20 +350,10 @@ async function allocateUniqueUri(dir: vscode.Uri, filename: string): Promise<vsc
   throw new Error("Too many attachment filename collisions (tried 1000 candidates).");
 }
 
-function createBaseName(fromDocumentUri: vscode.Uri, naming: "timestamp" | "noteNameTimestamp"): string {
-  const now = new Date();
-  const pad2 = (n: number) => String(n).padStart(2, "0");
-  const ts = `${now.getFullYear()}${pad2(now.getMonth() + 1)}${pad2(now.getDate())}-${pad2(now.getHours())}${pad2(
-    now.getMinutes()
-  )}${pad2(now.getSeconds())}`;
-
-  if (naming === "timestamp") {
-    return ts;
-  }
-
-  const base = path.posix.basename(fromDocumentUri.path, path.posix.extname(fromDocumentUri.path));
-  const safe = base.replace(/[^\p{L}\p{N}_-]+/gu, "-").replace(/-+/g, "-").replace(/^-|-$/g, "");
-  return safe.length > 0 ? `${safe}-${ts}` : ts;
+function guessFileExt(filenameHint?: string, mime?: string): string {
+  const extFromName = filenameHint ? path.posix.extname(filenameHint).replace(/^\./, "").toLowerCase() : undefined;
+  if (extFromName && /^[a-z0-9]+$/.test(extFromName)) return extFromName;
+  return FILE_MIME_EXTS[(mime ?? "").toLowerCase()] ?? "bin";
 }
 
 function guessImageExt(filenameHint?: string, mime?: string): string | undefined {
@@ -117,12 +379,3 @@ function validateWorkspaceRelativePath(input: string): { ok: true; path: string
   if (segments.some((s) => s === "." || s === "..")) return { ok: false, reason: "dot_segments_not_allowed" };
   return { ok: true, path: segments.join("/") };
 }
-
-function validateSinglePathSegment(input: string): { ok: true; segment: string } | { ok: false; reason: string } {
-  const trimmed = input.trim();
-  if (trimmed.length === 0) return { ok: false, reason: "empty" };
-  if (trimmed.includes("/") || trimmed.includes("\\")) return { ok: false, reason: "slash_not_allowed" };
-  if (trimmed === "." || trimmed === "..") return { ok: false, reason: "dot_not_allowed" };
-  if (trimmed.includes(":")) return { ok: false, reason: "colon_not_allowed" };
-  return { ok: true, segment: trimmed };
-}
@@ -0,0 +1,57 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { AttachmentHashIndex } from "./AttachmentHashIndex";
+import { copyFileAttachment, fileLinkMarkdown } from "./AttachmentService";
+import { computeMarkdownLinkPath, isMarkdownUri } from "./LinkService";
+
+const IMAGE_EXTS = new Set([".png", ".jpg", ".jpeg", ".gif", ".webp", ".svg", ".bmp", ".avif"]);
+
+/**
+ * Markdown for files dropped on a note: `![](...)` for images, `[name](...)` for notes, other files and folders
+ * (`<audio>` / `<video>` for media when HTML embeds are allowed), one bullet per file when several are dropped.
+ * Paths follow `quench.links.pathStyle`. Files outside the workspace
+ * are copied into the attachment folder when `copyExternal` is set (Shift held), and rejected otherwise; a copy that
+ * already exists there is linked instead (`quench.attachments.deduplicate`).
+ */
+export async function buildDroppedFileLinks(
+  fromUri: vscode.Uri,
+  targets: vscode.Uri[],
+  copyExternal: boolean,
+  hashIndex?: AttachmentHashIndex
+): Promise<string> {
+  const links: string[] = [];
+  for (const dropped of targets) {
+    let target = dropped;
+    const isDirectory = await statIsDirectory(target);
+    if (!vscode.workspace.getWorkspaceFolder(target)) {
+      if (!copyExternal || isDirectory) {
+        throw new Error(
+          `${path.posix.basename(target.path)} is outside the workspace. Hold Shift while dropping to copy a file into the attachment folder.`
+        );
+      }
+      const copied = await copyFileAttachment(fromUri, target, hashIndex);
+      if (!copied) continue; // name prompt cancelled
+      target = copied;
+    }
+    links.push(formatLink(fromUri, target, isDirectory));
+  }
+  return links.length === 1 ? (links[0] ?? "") : links.map((l) => `- ${l}`).join("\n");
+}
+
+function formatLink(fromUri: vscode.Uri, target: vscode.Uri, isDirectory: boolean): string {
+  const rel = computeMarkdownLinkPath(fromUri, target);
+  const ext = path.posix.extname(target.path).toLowerCase();
+  if (!isDirectory && IMAGE_EXTS.has(ext)) return `![](${rel})`;
+  const name = path.posix.basename(target.path);
+  if (isDirectory) return `[${name}/](${rel}/)`;
+  if (isMarkdownUri(target)) return `[${path.posix.basename(name, ext)}](${rel})`;
+  return fileLinkMarkdown(fromUri, target, name);
+}
+
+async function statIsDirectory(uri: vscode.Uri): Promise<boolean> {
+  try {
+    return ((await vscode.workspace.fs.stat(uri)).type & vscode.FileType.Directory) !== 0;
+  } catch {
+    throw new Error(`File not found: ${uri.fsPath}`);
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  collectFootnoteDefinitions,
+  findFootnoteReferences,
+  nextFootnoteLabel,
+  parseFootnoteDefinition
+} from "../../shared/footnotes";
+import { forEachLineOutsideFences, normalizeReferenceLabel } from "../../shared/referenceLinks";
+import { lineStartOffsets, TextReplacement } from "./ReferenceLinkService";
+
+export type FootnoteRenumbering = {
+  replacements: TextReplacement[];
+  /** Number of footnotes whose label changed. */
+  count: number;
+};
+
+export type FootnoteInsertion = {
+  label: string;
+  replacements: TextReplacement[];
+  /** Document offset at the end of the new, still empty definition (after the edit). */
+  definitionEnd: number;
+};
+
+/**
+ * Relabels footnotes `1`, `2`, ... in order of first reference; definitions nobody references follow in
+ * document order. Definitions stay where they are.
+ */
+export function renumberFootnotes(markdown: string): FootnoteRenumbering {
+  const lines = markdown.split(/\r?\n/);
+  const starts = lineStartOffsets(markdown);
+  const definitions = collectFootnoteDefinitions(lines);
+  const order: string[] = [];
+  const labels: { line: number; from: number; to: number; key: string }[] = [];
+
+  forEachLineOutsideFences(lines, (text, line) => {
+    for (const ref of findFootnoteReferences(text)) {
+      if (!order.includes(ref.key)) order.push(ref.key);
+      labels.push({ line, from: ref.from, to: ref.to, key: ref.key });
+    }
+    const def = parseFootnoteDefinition(text);
+    if (def) labels.push({ line, from: def.from, to: def.to, key: normalizeReferenceLabel(def.label) });
+  });
+  for (const key of definitions.keys()) {
+    if (!order.includes(key)) order.push(key);
+  }
+
+  const numbers = new Map(order.map((key, i) => [key, String(i + 1)]));
+  const replacements: TextReplacement[] = [];
+  const changed = new Set<string>();
+  for (const l of labels) {
+    const next = numbers.get(l.key);
+    if (next === undefined) continue;
+    const text = `[^${next}]`;
+    const from = starts[l.line] + l.from;
+    const to = starts[l.line] + l.to;
+    if (markdown.slice(from, to) === text) continue;
+    replacements.push({ from, to, text });
+    changed.add(l.key);
+  }
+  return { replacements, count: changed.size };
+}
+
+/**
+ * Inserts a reference with the next free numeric label at `offset` and appends an empty definition at the end
+ * of the document, after any footnote definitions already there.
+ */
+export function planFootnoteInsertion(markdown: string, offset: number): FootnoteInsertion {
+  const lines = markdown.split(/\r?\n/);
+  const label = nextFootnoteLabel(lines);
+  const eol = markdown.includes("\r\n") ? "\r\n" : "\n";
+  const reference = `[^${label}]`;
+
+  const trimmed = markdown.replace(/\s+$/, "");
+  let lastLine = lines.length - 1;
+  while (lastLine >= 0 && (lines[lastLine] ?? "").trim().length === 0) lastLine--;
+  // New definitions join a trailing block of definitions; otherwise they start one after a blank line.
+  const endsWithDefinitions = [...collectFootnoteDefinitions(lines).values()].some((d) => d.endLine === lastLine);
+  const at = Math.min(offset, trimmed.length);
+  const separator = endsWithDefinitions && at < trimmed.length ? eol : `${eol}${eol}`;
+  const definition = `[^${label}]: `;
+  const tail = `${separator}${definition}${eol}`;
+  const replacements: TextReplacement[] =
+    at === trimmed.length
+      ? [{ from: at, to: markdown.length, text: `${reference}${tail}` }]
+      : [
+          { from: at, to: at, text: reference },
+          { from: trimmed.length, to: markdown.length, text: tail }
+        ];
+
+  return {
+    label,
+    replacements,
+    definitionEnd: trimmed.length + reference.length + separator.length + definition.length
+  };
+}
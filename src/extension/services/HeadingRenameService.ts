@@ -0,0 +1,79 @@
+import * as vscode from "vscode";
+import { extractHeadings, Heading } from "./HeadingService";
+import { decodeFragment, extractMarkdownLinks, resolveHrefToUri, splitHref } from "./LinkService";
+import { getSlugStyle } from "./Settings";
+import { readMarkdownText, WorkspaceIndex } from "./WorkspaceIndex";
+
+export type HeadingRenamePlan = {
+  edit: vscode.WorkspaceEdit;
+  oldSlug: string;
+  newSlug: string;
+  referenceCount: number;
+};
+
+export function findHeadingAtLine(document: vscode.TextDocument, line: number): Heading | null {
+  return extractHeadings(document.getText(), getSlugStyle(document.uri)).find((h) => h.startLine === line) ?? null;
+}
+
+/**
+ * Builds a single edit that renames the heading at `heading.startLine` and rewrites every `#slug`
+ * reference to this document. All slugs are recomputed, because renaming one of several identical
+ * headings shifts the `-1`, `-2` suffixes of the others.
+ */
+export async function buildHeadingRenameEdit(
+  document: vscode.TextDocument,
+  heading: Heading,
+  newText: string,
+  index: WorkspaceIndex
+): Promise<HeadingRenamePlan> {
+  const text = document.getText();
+  const lineText = document.lineAt(heading.startLine).text;
+  const col = lineText.indexOf(heading.text);
+  if (col < 0) throw new Error("Could not locate the heading text on its line.");
+
+  const headingRange = new vscode.Range(heading.startLine, col, heading.startLine, col + heading.text.length);
+  const lines = text.split(/\r?\n/);
+  lines[heading.startLine] = lineText.slice(0, col) + newText + lineText.slice(col + heading.text.length);
+
+  const slugStyle = getSlugStyle(document.uri);
+  const before = extractHeadings(text, slugStyle);
+  const after = extractHeadings(lines.join("\n"), slugStyle);
+  if (before.length !== after.length) throw new Error("The new heading text changes the document structure.");
+
+  const slugMap = new Map<string, string>();
+  for (let i = 0; i < before.length; i++) {
+    if (before[i].slug !== after[i].slug) slugMap.set(before[i].slug, after[i].slug);
+  }
+  const hitIndex = before.findIndex((h) => h.startLine === heading.startLine);
+  const oldSlug = heading.slug;
+  const newSlug = hitIndex >= 0 ? after[hitIndex].slug : oldSlug;
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(document.uri, headingRange, newText);
+
+  let referenceCount = 0;
+  if (slugMap.size === 0) return { edit, oldSlug, newSlug, referenceCount };
+
+  const docKey = document.uri.toString();
+  const sources = new Map<string, vscode.Uri>([[docKey, document.uri]]);
+  for (const b of index.getBacklinks(document.uri)) sources.set(b.sourceUri.toString(), b.sourceUri);
+
+  for (const [key, source] of sources) {
+    const sourceText = key === docKey ? text : await readMarkdownText(source).catch(() => null);
+    if (sourceText === null) continue;
+    for (const link of extractMarkdownLinks(sourceText)) {
+      const resolved = resolveHrefToUri(source, link.href);
+      if (resolved === "external" || resolved.targetUri.toString() !== docKey) continue;
+      const fragment = decodeFragment(resolved.fragment);
+      if (!fragment) continue;
+      const next = slugMap.get(fragment);
+      if (!next) continue;
+      const { pathPart } = splitHref(link.href);
+      const range = new vscode.Range(link.line, link.hrefFrom, link.line, link.hrefTo);
+      edit.replace(source, range, `${pathPart}#${next}`);
+      referenceCount++;
+    }
+  }
+
+  return { edit, oldSlug, newSlug, referenceCount };
+}
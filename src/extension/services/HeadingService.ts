@@ -1,22 +1,43 @@
 import MarkdownIt from "markdown-it";
-import GithubSlugger from "github-slugger";
+import { findExplicitHeadingId, findHtmlAnchorIds } from "../../shared/headingIds";
+import { forEachLineOutsideFences } from "../../shared/referenceLinks";
+import { createSlugger, SlugStyle } from "./SlugService";
 
 export type Heading = {
   level: number;
+  /** Heading text without a trailing `{#id}`. */
   text: string;
+  /** The explicit `{#id}` when present, otherwise generated from `text`. */
   slug: string;
   startLine: number;
 };
 
+/** An HTML element with `id` (or `<a name>`) that a `#fragment` can point at. */
+export type HtmlAnchor = {
+  id: string;
+  line: number;
+  /** Text of the line without tags, for pickers. */
+  label: string;
+};
+
+/** Anything a `#fragment` resolves to: a heading (`level` set) or an HTML anchor. */
+export type LinkTarget = {
+  slug: string;
+  line: number;
+  label: string;
+  level?: number;
+};
+
 const md = new MarkdownIt({
   html: false,
   linkify: false,
   typographer: false
 });
 
-export function extractHeadings(markdown: string): Heading[] {
+/** Headings in document order; `slugStyle` is the anchor style of the folder the note belongs to (see `getSlugStyle`). */
+export function extractHeadings(markdown: string, slugStyle: SlugStyle): Heading[] {
   const tokens = md.parse(markdown, {});
-  const slugger = new GithubSlugger();
+  const slugify = createSlugger(slugStyle);
   const headings: Heading[] = [];
 
   for (let i = 0; i < tokens.length; i++) {
@@ -25,11 +46,36 @@ export function extractHeadings(markdown: string): Heading[] {
     const level = Number.parseInt(t.tag.replace(/^h/, ""), 10);
     const inline = tokens[i + 1];
     if (!inline || inline.type !== "inline") continue;
-    const text = inline.content ?? "";
-    const slug = slugger.slug(text);
+    const content = inline.content ?? "";
+    // An explicit ID replaces the generated slug (and does not take part in duplicate numbering).
+    const explicit = findExplicitHeadingId(content);
+    const text = explicit ? content.slice(0, explicit.from) : content;
+    const slug = explicit ? explicit.id : slugify(text);
     const startLine = Array.isArray(t.map) ? t.map[0] : 0;
     headings.push({ level, text, slug, startLine });
   }
   return headings;
 }
 
+export function extractHtmlAnchors(markdown: string): HtmlAnchor[] {
+  const anchors: HtmlAnchor[] = [];
+  forEachLineOutsideFences(markdown.split(/\r?\n/), (text, line) => {
+    const ids = findHtmlAnchorIds(text);
+    if (ids.length === 0) return;
+    const label = text.replace(/<[^>]*>/g, "").trim();
+    for (const { id } of ids) anchors.push({ id, line, label: label.length > 0 ? label : id });
+  });
+  return anchors;
+}
+
+/** Headings and HTML anchors as one list of fragment targets, in document order. */
+export function toLinkTargets(headings: readonly Heading[], anchors: readonly HtmlAnchor[]): LinkTarget[] {
+  return [
+    ...headings.map((h) => ({ slug: h.slug, line: h.startLine, label: h.text, level: h.level })),
+    ...anchors.map((a) => ({ slug: a.id, line: a.line, label: a.label }))
+  ].sort((a, b) => a.line - b.line);
+}
+
+export function extractLinkTargets(markdown: string, slugStyle: SlugStyle): LinkTarget[] {
+  return toLinkTargets(extractHeadings(markdown, slugStyle), extractHtmlAnchors(markdown));
+}
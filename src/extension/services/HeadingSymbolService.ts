@@ -0,0 +1,112 @@
+import * as vscode from "vscode";
+import { extractHeadings, Heading } from "./HeadingService";
+import { fuzzyScore } from "./NoteSwitcherService";
+import { getHeadingSymbolsMode, getSlugStyle } from "./Settings";
+import { WorkspaceIndex } from "./WorkspaceIndex";
+
+// Ctrl+T with an empty query lists everything; keep the result bounded in large workspaces.
+const MAX_WORKSPACE_SYMBOLS = 1000;
+
+const BUILTIN_MARKDOWN_EXTENSION = "vscode.markdown-language-features";
+
+/**
+ * Headings as symbols: document symbols (Outline, breadcrumbs, Go to Symbol in Editor) nested by level,
+ * and workspace symbols (Go to Symbol in Workspace) served from the index.
+ * `quench.symbols.headings: auto` leaves this to the built-in Markdown extension while it is enabled.
+ * Workspace symbols are plain locations, so VS Code opens them in the editor associated with Markdown files; a note
+ * opened in Quench does not scroll to the heading (`Quench: Go to Heading in Note` does that there).
+ */
+export class HeadingSymbolService implements vscode.DocumentSymbolProvider, vscode.WorkspaceSymbolProvider, vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private registrations: vscode.Disposable[] = [];
+
+  constructor(private readonly index: WorkspaceIndex) {
+    this.updateRegistrations();
+    vscode.extensions.onDidChange(() => this.updateRegistrations(), null, this.disposables);
+    vscode.workspace.onDidChangeConfiguration(
+      (e) => {
+        if (e.affectsConfiguration("quench.symbols.headings")) this.updateRegistrations();
+      },
+      null,
+      this.disposables
+    );
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables.length = 0;
+    this.unregister();
+  }
+
+  private updateRegistrations(): void {
+    const mode = getHeadingSymbolsMode();
+    const enabled = mode === "always" || (mode === "auto" && !vscode.extensions.getExtension(BUILTIN_MARKDOWN_EXTENSION));
+    if (enabled === this.registrations.length > 0) return;
+    if (!enabled) {
+      this.unregister();
+      return;
+    }
+    this.registrations = [
+      vscode.languages.registerDocumentSymbolProvider({ language: "markdown" }, this, { label: "Quench" }),
+      vscode.languages.registerWorkspaceSymbolProvider(this)
+    ];
+  }
+
+  private unregister(): void {
+    this.registrations.forEach((d) => d.dispose());
+    this.registrations = [];
+  }
+
+  provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    return buildHeadingSymbols(document);
+  }
+
+  provideWorkspaceSymbols(query: string): vscode.SymbolInformation[] {
+    const out: vscode.SymbolInformation[] = [];
+    for (const uri of this.index.getMarkdownFiles()) {
+      const note = this.index.getNote(uri);
+      if (!note) continue;
+      for (const heading of note.headings) {
+        if (fuzzyScore(query, heading.text) === null) continue;
+        out.push(
+          new vscode.SymbolInformation(
+            heading.text,
+            vscode.SymbolKind.String,
+            note.title,
+            new vscode.Location(uri, new vscode.Position(heading.startLine, 0))
+          )
+        );
+        if (out.length >= MAX_WORKSPACE_SYMBOLS) return out;
+      }
+    }
+    return out;
+  }
+}
+
+/** Heading symbols of a document; each symbol's range spans its section, children are its subheadings. */
+export function buildHeadingSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+  const headings = extractHeadings(document.getText(), getSlugStyle(document.uri));
+  const roots: vscode.DocumentSymbol[] = [];
+  const stack: { heading: Heading; symbol: vscode.DocumentSymbol }[] = [];
+
+  headings.forEach((heading, i) => {
+    const next = headings.slice(i + 1).find((h) => h.level <= heading.level);
+    const endLine = next ? next.startLine - 1 : document.lineCount - 1;
+    const headingLine = document.lineAt(heading.startLine).range;
+    const range = new vscode.Range(headingLine.start, document.lineAt(Math.max(heading.startLine, endLine)).range.end);
+    const symbol = new vscode.DocumentSymbol(
+      heading.text.length > 0 ? heading.text : " ",
+      `#${heading.slug}`,
+      vscode.SymbolKind.String,
+      range,
+      headingLine
+    );
+
+    while (stack.length > 0 && (stack[stack.length - 1]?.heading.level ?? 0) >= heading.level) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (parent) parent.symbol.children.push(symbol);
+    else roots.push(symbol);
+    stack.push({ heading, symbol });
+  });
+  return roots;
+}
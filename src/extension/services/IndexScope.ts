@@ -0,0 +1,133 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import ignore from "ignore";
+import { Minimatch } from "minimatch";
+import { getIndexSettings } from "./Settings";
+
+type GitignoreRules = {
+  /** Directory of the .gitignore, relative to the workspace folder ("" for the root). */
+  dir: string;
+  rules: ignore.Ignore;
+};
+
+type FolderScope = {
+  include: Minimatch[];
+  exclude: Minimatch[];
+  extensions: Set<string>;
+  gitignores: GitignoreRules[];
+};
+
+/**
+ * Decides which files belong to the workspace index, per workspace folder:
+ * `quench.index.include` / `quench.index.exclude`, `files.exclude`, `search.exclude`,
+ * `.gitignore` files and the configured Markdown extensions.
+ * Globs are matched against folder-relative paths, and a match on any parent directory excludes the file.
+ */
+export class IndexScope {
+  private constructor(private readonly folders: Map<string, FolderScope>) {}
+
+  static async load(): Promise<IndexScope> {
+    const folders = new Map<string, FolderScope>();
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const settings = getIndexSettings(folder.uri);
+      const exclude = [
+        ...settings.exclude,
+        ...enabledPatterns(vscode.workspace.getConfiguration("files", folder.uri).get("exclude")),
+        ...enabledPatterns(vscode.workspace.getConfiguration("search", folder.uri).get("exclude"))
+      ];
+      const gitignores = settings.respectGitignore ? await loadGitignores(folder) : [];
+      folders.set(folder.uri.toString(), {
+        include: settings.include.map(toMatcher),
+        exclude: exclude.map(toMatcher),
+        extensions: new Set(settings.markdownExtensions),
+        gitignores
+      });
+    }
+    return new IndexScope(folders);
+  }
+
+  /** A `findFiles` include glob covering every configured Markdown extension. */
+  get markdownGlob(): string {
+    const exts = new Set<string>();
+    for (const scope of this.folders.values()) scope.extensions.forEach((e) => exts.add(e.slice(1)));
+    if (exts.size <= 1) return "**/*.md";
+    return `**/*.{${[...exts].join(",")}}`;
+  }
+
+  /**
+   * A `findFiles` exclude glob that prunes excluded folders early (e.g. node_modules).
+   * Only brace-free patterns shared by every folder can be merged into one glob; `includes()` / `contains()` remain the authority.
+   */
+  get searchExcludeGlob(): string | undefined {
+    let shared: string[] | null = null;
+    for (const scope of this.folders.values()) {
+      const patterns = scope.exclude.map((m) => m.pattern).filter((p) => !/[{},]/.test(p));
+      shared = shared === null ? patterns : shared.filter((p) => patterns.includes(p));
+    }
+    if (!shared || shared.length === 0) return undefined;
+    return `{${[...new Set(shared)].join(",")}}`;
+  }
+
+  /** Whether `uri` is a note of the index: a Markdown file `contains()` lets through. */
+  includes(uri: vscode.Uri): boolean {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    const scope = folder && this.folders.get(folder.uri.toString());
+    if (!scope || !scope.extensions.has(path.posix.extname(uri.path).toLowerCase())) return false;
+    return this.contains(uri);
+  }
+
+  /** Whether a file of any type lies inside the indexed part of its workspace folder (include, exclude and .gitignore). */
+  contains(uri: vscode.Uri): boolean {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) return false;
+    const scope = this.folders.get(folder.uri.toString());
+    if (!scope) return false;
+
+    const rel = path.posix.relative(folder.uri.path, uri.path);
+    if (rel.length === 0 || rel.startsWith("..")) return false;
+    if (scope.include.length > 0 && !scope.include.some((m) => m.match(rel))) return false;
+
+    // Check the file and each parent directory, so folder patterns like `**/build` exclude their contents.
+    const segments = rel.split("/");
+    for (let i = 1; i <= segments.length; i++) {
+      const prefix = segments.slice(0, i).join("/");
+      if (scope.exclude.some((m) => m.match(prefix))) return false;
+    }
+
+    for (const gi of scope.gitignores) {
+      if (gi.dir.length > 0 && !rel.startsWith(`${gi.dir}/`)) continue;
+      const sub = gi.dir.length > 0 ? rel.slice(gi.dir.length + 1) : rel;
+      if (gi.rules.ignores(sub)) return false;
+    }
+    return true;
+  }
+}
+
+function toMatcher(glob: string): Minimatch {
+  return new Minimatch(glob.replace(/^\.?\//, ""), { dot: true });
+}
+
+/** `files.exclude` / `search.exclude` map globs to `true`, `false` or a `{ when }` clause; only plain `true` is honored. */
+function enabledPatterns(value: unknown): string[] {
+  if (typeof value !== "object" || value === null) return [];
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, enabled]) => enabled === true)
+    .map(([glob]) => glob);
+}
+
+async function loadGitignores(folder: vscode.WorkspaceFolder): Promise<GitignoreRules[]> {
+  const pattern = new vscode.RelativePattern(folder, "**/.gitignore");
+  const files = await vscode.workspace.findFiles(pattern, "**/node_modules/**");
+  const out: GitignoreRules[] = [];
+  for (const uri of files) {
+    try {
+      const bytes = await vscode.workspace.fs.readFile(uri);
+      const dir = path.posix.relative(folder.uri.path, path.posix.dirname(uri.path));
+      out.push({ dir, rules: ignore().add(Buffer.from(bytes).toString("utf8")) });
+    } catch (err) {
+      console.error("[quench] Failed to read .gitignore:", uri.toString(), err);
+    }
+  }
+  // Shallow first; deeper files only see paths inside their own directory.
+  return out.sort((a, b) => a.dir.length - b.dir.length);
+}
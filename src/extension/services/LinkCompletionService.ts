@@ -0,0 +1,97 @@
+import * as vscode from "vscode";
+import { LinkCompletionItem } from "../../shared/protocol";
+import { LinkTarget } from "./HeadingService";
+import { computeMarkdownLinkPath, isMarkdownUri, resolveHrefToUri } from "./LinkService";
+import { WorkspaceIndex } from "./WorkspaceIndex";
+
+const IMAGE_GLOB = "**/*.{png,jpg,jpeg,gif,webp,svg}";
+
+/**
+ * Answers the webview's link autocompletion queries.
+ * Notes come from the workspace index; images are listed once within the index scope and kept fresh by a watcher
+ * and the index's rescans (which follow scope changes).
+ */
+export class LinkCompletionService implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private images: Promise<vscode.Uri[]> | null = null;
+
+  constructor(private readonly index: WorkspaceIndex) {
+    const watcher = vscode.workspace.createFileSystemWatcher(IMAGE_GLOB, false, true, false);
+    this.disposables.push(watcher);
+    watcher.onDidCreate(() => (this.images = null), null, this.disposables);
+    watcher.onDidDelete(() => (this.images = null), null, this.disposables);
+    this.index.onDidUpdate(
+      (changed) => {
+        if (!changed) this.images = null;
+      },
+      null,
+      this.disposables
+    );
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables.length = 0;
+  }
+
+  /**
+   * Link paths (in the note's `quench.links.pathStyle`) from `fromUri` to notes, or images when `imagesOnly`,
+   * across all workspace folders. Files the style cannot reach are left out.
+   */
+  async getPathCompletions(fromUri: vscode.Uri, imagesOnly: boolean): Promise<LinkCompletionItem[]> {
+    const candidates = imagesOnly
+      ? await this.getImageFiles()
+      : this.index.getMarkdownFiles().filter((u) => u.toString() !== fromUri.toString());
+
+    const items: LinkCompletionItem[] = [];
+    for (const uri of candidates) {
+      let rel: string;
+      try {
+        rel = computeMarkdownLinkPath(fromUri, uri);
+      } catch {
+        continue;
+      }
+      items.push({
+        label: rel,
+        detail: vscode.workspace.asRelativePath(uri),
+        kind: imagesOnly ? "image" : "file"
+      });
+    }
+    return items.sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  /** Heading slugs and HTML anchor IDs of the note `pathPart` points to (the current note when empty). */
+  async getHeadingCompletions(fromUri: vscode.Uri, pathPart: string): Promise<LinkCompletionItem[]> {
+    const resolved = resolveHrefToUri(fromUri, pathPart);
+    if (resolved === "external") return [];
+    if (!isMarkdownUri(resolved.targetUri)) return [];
+
+    let targets: LinkTarget[];
+    try {
+      targets = await this.index.readLinkTargets(resolved.targetUri);
+    } catch {
+      return [];
+    }
+    return targets.map((t) => ({
+      label: t.slug,
+      detail: t.level !== undefined ? `${"#".repeat(t.level)} ${t.label}` : `<a id> ${t.label}`,
+      kind: "heading"
+    }));
+  }
+
+  private getImageFiles(): Promise<vscode.Uri[]> {
+    if (!this.images) {
+      this.images = this.findImageFiles().catch(() => {
+        this.images = null;
+        return [];
+      });
+    }
+    return this.images;
+  }
+
+  private async findImageFiles(): Promise<vscode.Uri[]> {
+    const scope = await this.index.getScope();
+    const found = await vscode.workspace.findFiles(IMAGE_GLOB, scope.searchExcludeGlob);
+    return found.filter((uri) => scope.contains(uri));
+  }
+}
@@ -0,0 +1,201 @@
+import * as vscode from "vscode";
+import { decodeFragment, isMarkdownUri, MarkdownLink, parseLineFragment, resolveHrefToUri, UndefinedReference } from "./LinkService";
+import { getQuenchSettings } from "./Settings";
+import { WorkspaceIndex } from "./WorkspaceIndex";
+
+export type LinkProblemCode = "missing-file" | "missing-heading" | "outside-workspace" | "undefined-reference";
+
+/** A problem at `line`, columns `from`..`to` (0-based). */
+export type LinkProblem = {
+  line: number;
+  from: number;
+  to: number;
+  code: LinkProblemCode;
+  message: string;
+};
+
+/**
+ * Per-refresh lookup cache so a full workspace pass stats/parses each target only once.
+ */
+type TargetCache = {
+  exists: Map<string, boolean>;
+  slugs: Map<string, Set<string> | null>;
+};
+
+export class LinkDiagnosticsService implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly collection = vscode.languages.createDiagnosticCollection("quench-links");
+  private readonly refreshedEmitter = new vscode.EventEmitter<void>();
+  readonly onDidRefresh = this.refreshedEmitter.event;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  /** Notes to re-check on the next refresh, or "all". */
+  private pending: Set<string> | "all" = new Set();
+
+  constructor(private readonly index: WorkspaceIndex) {
+    this.disposables.push(this.collection);
+    this.index.onDidUpdate((changed) => this.scheduleRefresh(changed), null, this.disposables);
+    // The index only watches notes; attachments (and folders) appearing or disappearing change what links resolve to.
+    const watcher = vscode.workspace.createFileSystemWatcher("**/*", false, true, false);
+    this.disposables.push(watcher);
+    const onFileEvent = (uri: vscode.Uri) => {
+      if (!isMarkdownUri(uri)) this.scheduleRefresh([uri]);
+    };
+    watcher.onDidCreate(onFileEvent, null, this.disposables);
+    watcher.onDidDelete(onFileEvent, null, this.disposables);
+    vscode.workspace.onDidChangeConfiguration(
+      (e) => {
+        if (e.affectsConfiguration("quench.links.diagnostics")) this.scheduleRefresh();
+      },
+      null,
+      this.disposables
+    );
+  }
+
+  dispose(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables.length = 0;
+    this.refreshedEmitter.dispose();
+  }
+
+  async findProblems(
+    sourceUri: vscode.Uri,
+    links: readonly MarkdownLink[],
+    undefinedReferences: readonly UndefinedReference[],
+    cache = createTargetCache()
+  ): Promise<LinkProblem[]> {
+    const problems: LinkProblem[] = undefinedReferences.map((ref) => ({
+      line: ref.line,
+      from: ref.from,
+      to: ref.to,
+      code: "undefined-reference",
+      message: `Link reference [${ref.label}] is not defined`
+    }));
+    const sourceFolder = vscode.workspace.getWorkspaceFolder(sourceUri);
+
+    for (const link of links) {
+      const at = { line: link.line, from: link.from, to: link.to };
+      const resolved = resolveHrefToUri(sourceUri, link.href);
+      if (resolved === "external") continue;
+      const target = resolved.targetUri;
+      const isSelf = target.toString() === sourceUri.toString();
+
+      if (!isSelf) {
+        const targetFolder = vscode.workspace.getWorkspaceFolder(target);
+        if (sourceFolder && !targetFolder) {
+          problems.push({ ...at, code: "outside-workspace", message: `Link target is outside the workspace: ${link.href}` });
+          continue;
+        }
+        if (!(await targetExists(target, cache))) {
+          problems.push({ ...at, code: "missing-file", message: `Link target not found: ${vscode.workspace.asRelativePath(target)}` });
+          continue;
+        }
+      }
+
+      const fragment = decodeFragment(resolved.fragment);
+      if (!fragment) continue;
+      if (!isMarkdownUri(target)) continue;
+      const slugs = await targetSlugs(target, this.index, cache);
+      // `#L12` points at a line, not at a heading or anchor.
+      if (slugs && !slugs.has(fragment) && !parseLineFragment(fragment)) {
+        const where = isSelf ? "this note" : vscode.workspace.asRelativePath(target);
+        problems.push({ ...at, code: "missing-heading", message: `Heading #${fragment} not found in ${where}` });
+      }
+    }
+    return problems;
+  }
+
+  /** Without `changed`, every note is re-checked. */
+  private scheduleRefresh(changed?: readonly vscode.Uri[]) {
+    if (!changed || this.pending === "all") this.pending = "all";
+    else for (const uri of changed) this.pending.add(uri.toString());
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      const pending = this.pending;
+      this.pending = new Set();
+      void (pending === "all" ? this.refreshAll() : this.refreshNotes(pending));
+    }, 300);
+  }
+
+  private async refreshAll(): Promise<void> {
+    const cache = createTargetCache();
+    this.collection.clear();
+    for (const uri of this.index.getMarkdownFiles()) await this.refreshNote(uri, cache);
+    this.refreshedEmitter.fire();
+  }
+
+  /**
+   * Re-checks the changed notes and the notes linking to them (or into them, for folders), whose links may now
+   * resolve differently. Changed files that are not notes only affect the notes linking to them.
+   */
+  private async refreshNotes(changed: ReadonlySet<string>): Promise<void> {
+    const cache = createTargetCache();
+    const affected = new Set(changed);
+    const isChanged = (target: string) => changed.has(target) || [...changed].some((key) => target.startsWith(`${key}/`));
+    for (const source of this.index.getSourcesLinkingTo((target) => isChanged(target.toString()))) affected.add(source.toString());
+    for (const key of affected) {
+      const uri = vscode.Uri.parse(key);
+      if (this.index.has(uri)) await this.refreshNote(uri, cache);
+      else if (isMarkdownUri(uri)) this.collection.delete(uri);
+    }
+    this.refreshedEmitter.fire();
+  }
+
+  private async refreshNote(uri: vscode.Uri, cache: TargetCache): Promise<void> {
+    if (!getQuenchSettings(uri).linkDiagnostics) {
+      this.collection.delete(uri);
+      return;
+    }
+    try {
+      const note = this.index.getNote(uri);
+      const problems = await this.findProblems(uri, note?.links ?? [], note?.undefinedReferences ?? [], cache);
+      if (problems.length > 0) this.collection.set(uri, problems.map(toDiagnostic));
+      else this.collection.delete(uri);
+    } catch (err) {
+      console.error("[quench] Link diagnostics failed:", uri.toString(), err);
+    }
+  }
+}
+
+function createTargetCache(): TargetCache {
+  return { exists: new Map(), slugs: new Map() };
+}
+
+function toDiagnostic(problem: LinkProblem): vscode.Diagnostic {
+  const range = new vscode.Range(problem.line, problem.from, problem.line, problem.to);
+  const diagnostic = new vscode.Diagnostic(range, problem.message, vscode.DiagnosticSeverity.Warning);
+  diagnostic.source = "quench";
+  diagnostic.code = problem.code;
+  return diagnostic;
+}
+
+async function targetExists(uri: vscode.Uri, cache: TargetCache): Promise<boolean> {
+  const key = uri.toString();
+  const hit = cache.exists.get(key);
+  if (hit !== undefined) return hit;
+  let exists = true;
+  try {
+    await vscode.workspace.fs.stat(uri);
+  } catch {
+    exists = false;
+  }
+  cache.exists.set(key, exists);
+  return exists;
+}
+
+async function targetSlugs(uri: vscode.Uri, index: WorkspaceIndex, cache: TargetCache): Promise<Set<string> | null> {
+  const key = uri.toString();
+  const hit = cache.slugs.get(key);
+  if (hit !== undefined) return hit;
+  let slugs: Set<string> | null = null;
+  try {
+    const targets = await index.readLinkTargets(uri);
+    slugs = new Set(targets.map((t) => t.slug));
+  } catch {
+    slugs = null;
+  }
+  cache.slugs.set(key, slugs);
+  return slugs;
+}
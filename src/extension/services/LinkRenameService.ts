@@ -0,0 +1,143 @@
+import * as vscode from "vscode";
+import { computeMarkdownLinkPath, extractMarkdownLinks, resolveHrefToUri, splitHref } from "./LinkService";
+import { getLinkPathStyle, getQuenchSettings } from "./Settings";
+import { readMarkdownText, WorkspaceIndex } from "./WorkspaceIndex";
+
+type RenameEntry = {
+  oldUri: vscode.Uri;
+  newUri: vscode.Uri;
+  isDirectory: boolean;
+};
+
+/**
+ * Keeps relative links valid when notes/attachments are renamed or moved.
+ * Fixes inbound links (other notes → moved file) and outbound links (moved note → others).
+ */
+export class LinkRenameService implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly index: WorkspaceIndex) {
+    vscode.workspace.onWillRenameFiles(
+      (e) => {
+        const first = e.files[0];
+        if (!first) return;
+        const mode = getQuenchSettings(first.oldUri).updateLinksOnRename;
+        if (mode === "never") return;
+        e.waitUntil(this.buildRenameEdit(e.files, mode));
+      },
+      null,
+      this.disposables
+    );
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables.length = 0;
+  }
+
+  /**
+   * No dialog may be shown here: `waitUntil` only waits a few seconds before VS Code goes ahead with the rename.
+   * In `ask` mode the edits are marked as needing confirmation, so VS Code shows them in its refactor preview instead.
+   */
+  private async buildRenameEdit(
+    files: ReadonlyArray<{ oldUri: vscode.Uri; newUri: vscode.Uri }>,
+    mode: "always" | "ask"
+  ): Promise<vscode.WorkspaceEdit> {
+    try {
+      const entries = await toRenameEntries(files);
+      const metadata = mode === "ask" ? { needsConfirmation: true, label: "Update Markdown links" } : undefined;
+      return await this.buildEdit(entries, metadata);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Quench: Failed to update links for rename: ${message}`);
+      return new vscode.WorkspaceEdit();
+    }
+  }
+
+  private async buildEdit(
+    entries: RenameEntry[],
+    metadata?: vscode.WorkspaceEditEntryMetadata
+  ): Promise<vscode.WorkspaceEdit> {
+    const mapUri = (uri: vscode.Uri): vscode.Uri | null => {
+      for (const entry of entries) {
+        if (uri.scheme !== entry.oldUri.scheme || uri.authority !== entry.oldUri.authority) continue;
+        if (uri.path === entry.oldUri.path) return entry.newUri;
+        if (entry.isDirectory && uri.path.startsWith(`${entry.oldUri.path}/`)) {
+          return entry.newUri.with({ path: entry.newUri.path + uri.path.slice(entry.oldUri.path.length) });
+        }
+      }
+      return null;
+    };
+
+    // Inbound: notes linking into anything that moves. Outbound: moved notes themselves.
+    const sources = new Map<string, vscode.Uri>();
+    for (const uri of this.index.getSourcesLinkingTo((t) => mapUri(t) !== null)) sources.set(uri.toString(), uri);
+    for (const uri of this.index.getMarkdownFiles()) {
+      if (mapUri(uri)) sources.set(uri.toString(), uri);
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const source of sources.values()) {
+      const newSource = mapUri(source) ?? source;
+      let text: string;
+      try {
+        text = await readMarkdownText(source);
+      } catch {
+        continue;
+      }
+
+      for (const link of extractMarkdownLinks(text)) {
+        const resolved = resolveHrefToUri(source, link.href);
+        if (resolved === "external") continue;
+        const { pathPart } = splitHref(link.href);
+        if (pathPart.trim().length === 0) continue; // in-document fragment
+
+        const target = resolved.targetUri;
+        const newTarget = mapUri(target) ?? target;
+        if (newTarget === target && newSource === source) continue;
+
+        const nextPath = rewriteLinkPath(pathPart, newSource, newTarget);
+        if (nextPath === null || nextPath === pathPart) continue;
+        const nextHref = resolved.fragment !== undefined ? `${nextPath}#${resolved.fragment}` : nextPath;
+        const range = new vscode.Range(link.line, link.hrefFrom, link.line, link.hrefTo);
+        edit.replace(source, range, nextHref, metadata);
+      }
+    }
+    return edit;
+  }
+}
+
+async function toRenameEntries(files: ReadonlyArray<{ oldUri: vscode.Uri; newUri: vscode.Uri }>): Promise<RenameEntry[]> {
+  const out: RenameEntry[] = [];
+  for (const f of files) {
+    let isDirectory = false;
+    try {
+      const stat = await vscode.workspace.fs.stat(f.oldUri);
+      isDirectory = (stat.type & vscode.FileType.Directory) !== 0;
+    } catch {
+      isDirectory = false;
+    }
+    out.push({ oldUri: f.oldUri, newUri: f.newUri, isDirectory });
+  }
+  return out;
+}
+
+/**
+ * Computes the link path for `target` as seen from `source`, keeping the original link style
+ * (`/path` — folder-qualified when that is the configured style — vs relative, with or without a leading `./`).
+ */
+function rewriteLinkPath(originalPath: string, source: vscode.Uri, target: vscode.Uri): string | null {
+  const style = !originalPath.startsWith("/")
+    ? "relative"
+    : getLinkPathStyle(source) === "folderQualified"
+      ? "folderQualified"
+      : "workspaceRoot";
+  let rel: string;
+  try {
+    rel = computeMarkdownLinkPath(source, target, style);
+  } catch {
+    return null;
+  }
+  if (!originalPath.startsWith("./") && rel.startsWith("./")) rel = rel.slice(2);
+  return rel;
+}
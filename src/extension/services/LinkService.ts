@@ -1,18 +1,157 @@
 import * as path from "node:path";
 import * as vscode from "vscode";
-import { extractHeadings } from "./HeadingService";
+import { extractLinkTargets } from "./HeadingService";
+import { getIndexSettings, getLinkPathStyle, getSlugStyle, LinkPathStyle } from "./Settings";
+import {
+  collectLinkDefinitions,
+  findInlineLinks,
+  findReferenceLinks,
+  forEachProseLine,
+  maskCodeSpans,
+  parseLinkDefinition
+} from "../../shared/referenceLinks";
 
 export type ResolvedLink = {
   targetUri: vscode.Uri;
   fragment?: string;
 };
 
+export type MarkdownLinkKind = "link" | "image" | "html-image" | "html-media" | "definition";
+
+/**
+ * A link occurrence found in Markdown source.
+ * Columns are 0-based offsets within `lineText`.
+ * For reference-style links the occurrence is the `[ref]: url` definition, since that is where the href lives.
+ */
+export type MarkdownLink = {
+  kind: MarkdownLinkKind;
+  label: string;
+  href: string;
+  line: number;
+  from: number;
+  to: number;
+  hrefFrom: number;
+  hrefTo: number;
+  lineText: string;
+};
+
+/** A `[text][ref]` / `[ref][]` usage whose label has no definition. Columns are 0-based within the line. */
+export type UndefinedReference = {
+  label: string;
+  line: number;
+  from: number;
+  to: number;
+};
+
+/**
+ * Extracts the link shapes the webview treats as links: `[label](href "title")`, `![alt](src)`, `<img src>`,
+ * `<audio src>` / `<video src>` / `<source src>` and `[ref]: href` definitions. `href` is the bare destination, without angle brackets or title.
+ * Code blocks and inline code spans are skipped.
+ */
+export function extractMarkdownLinks(markdown: string): MarkdownLink[] {
+  const out: MarkdownLink[] = [];
+
+  forEachProseLine(markdown.split(/\r?\n/), (text, lineNo) => {
+    const def = parseLinkDefinition(text, lineNo);
+    if (def) {
+      out.push({
+        kind: "definition",
+        label: def.label,
+        href: def.href,
+        line: lineNo,
+        from: 0,
+        to: text.length,
+        hrefFrom: def.hrefFrom,
+        hrefTo: def.hrefTo,
+        lineText: text
+      });
+      return;
+    }
+
+    for (const link of findInlineLinks(text)) {
+      out.push({
+        kind: link.image ? "image" : "link",
+        label: link.text,
+        href: link.href,
+        line: lineNo,
+        from: link.from,
+        to: link.to,
+        hrefFrom: link.hrefFrom,
+        hrefTo: link.hrefTo,
+        lineText: text
+      });
+    }
+
+    for (const m of maskCodeSpans(text).matchAll(/<(img|audio|video|source)\b[^>]*>/gi)) {
+      const start = m.index ?? -1;
+      if (start < 0) continue;
+      const raw = m[0];
+      const src = /\ssrc\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/i.exec(raw);
+      if (!src) continue;
+      const value = src[2] ?? src[3] ?? src[4] ?? "";
+      if (value.trim().length === 0) continue;
+      const valueOffset = (src.index ?? 0) + src[0].length - src[1].length + (src[2] !== undefined || src[3] !== undefined ? 1 : 0);
+      out.push({
+        kind: (m[1] ?? "").toLowerCase() === "img" ? "html-image" : "html-media",
+        label: "",
+        href: value,
+        line: lineNo,
+        from: start,
+        to: start + raw.length,
+        hrefFrom: start + valueOffset,
+        hrefTo: start + valueOffset + value.length,
+        lineText: text
+      });
+    }
+  });
+
+  return out;
+}
+
+export function findUndefinedReferences(markdown: string): UndefinedReference[] {
+  const lines = markdown.split(/\r?\n/);
+  const definitions = collectLinkDefinitions(lines);
+  const out: UndefinedReference[] = [];
+  forEachProseLine(lines, (text, lineNo) => {
+    for (const ref of findReferenceLinks(text, (key) => definitions.has(key))) {
+      if (definitions.has(ref.key)) continue;
+      out.push({ label: ref.key, line: lineNo, from: ref.from, to: ref.to });
+    }
+  });
+  return out;
+}
+
+/** Whether `uri` has one of the configured Markdown extensions (`quench.index.markdownExtensions`). */
+export function isMarkdownUri(uri: vscode.Uri): boolean {
+  const ext = path.posix.extname(uri.path).toLowerCase();
+  return getIndexSettings(uri).markdownExtensions.includes(ext);
+}
+
 export function splitHref(href: string): { pathPart: string; fragment?: string } {
   const hash = href.indexOf("#");
   if (hash === -1) return { pathPart: href };
   return { pathPart: href.slice(0, hash), fragment: href.slice(hash + 1) };
 }
 
+/** Decodes a percent-encoded `#fragment` so it can be compared against heading slugs. */
+export function decodeFragment(fragment: string | undefined): string | undefined {
+  if (!fragment) return undefined;
+  try {
+    return decodeURIComponent(fragment);
+  } catch {
+    return fragment;
+  }
+}
+
+/** `#L12` / `#L12C5` (GitHub-style line links, also `#L12-L20`) as a 0-based position. */
+export function parseLineFragment(fragment: string | undefined): vscode.Position | undefined {
+  const m = fragment ? /^L(\d+)(?:C(\d+))?(?:-L?\d+(?:C\d+)?)?$/.exec(fragment) : null;
+  if (!m) return undefined;
+  const line = Math.max(0, Number.parseInt(m[1] ?? "1", 10) - 1);
+  const character = m[2] !== undefined ? Math.max(0, Number.parseInt(m[2], 10) - 1) : 0;
+  return new vscode.Position(line, character);
+}
+
 export function computeRelativeMarkdownPath(fromDocumentUri: vscode.Uri, to: vscode.Uri): string {
   if (fromDocumentUri.scheme !== to.scheme || fromDocumentUri.authority !== to.authority) {
     throw new Error("Cannot compute a relative path across different scheme/authority.");
@@ -23,81 +162,142 @@ export function computeRelativeMarkdownPath(fromDocumentUri: vscode.Uri, to: vsc
   return rel;
 }
 
+/**
+ * The path part of a new link from `fromDocumentUri` to `to`, spelled in `style` (`quench.links.pathStyle` of the
+ * note by default) and encoded with `encodeLinkPath`. Throws with a user-facing message when the target cannot be
+ * written in that style.
+ */
+export function computeMarkdownLinkPath(
+  fromDocumentUri: vscode.Uri,
+  to: vscode.Uri,
+  style: LinkPathStyle = getLinkPathStyle(fromDocumentUri)
+): string {
+  return encodeLinkPath(unencodedLinkPath(fromDocumentUri, to, style));
+}
+
+/**
+ * Percent-encodes what would end a bare link destination or change its meaning: `%`, whitespace, parentheses,
+ * `<`, `>`, `#` and `?`. Everything else, including non-ASCII names, stays readable; `resolveHrefToUri` decodes it.
+ */
+export function encodeLinkPath(linkPath: string): string {
+  return linkPath.replace(/[%\s()<>#?]/g, (c) => (c === "(" ? "%28" : c === ")" ? "%29" : encodeURIComponent(c)));
+}
+
+function unencodedLinkPath(fromDocumentUri: vscode.Uri, to: vscode.Uri, style: LinkPathStyle): string {
+  switch (style) {
+    case "relative":
+      return computeRelativeMarkdownPath(fromDocumentUri, to);
+    case "workspaceRoot": {
+      const folder = vscode.workspace.getWorkspaceFolder(fromDocumentUri);
+      if (!folder) throw new Error("Root-relative links (/path) need the note to be in a workspace folder.");
+      if (vscode.workspace.getWorkspaceFolder(to)?.uri.toString() !== folder.uri.toString()) {
+        throw new Error(
+          `${path.posix.basename(to.path)} is outside the workspace folder "${folder.name}", so it has no /path there. ` +
+            `Use the "relative" or "folderQualified" link style (quench.links.pathStyle).`
+        );
+      }
+      return `/${path.posix.relative(folder.uri.path, to.path)}`;
+    }
+    case "folderQualified": {
+      const folder = vscode.workspace.getWorkspaceFolder(to);
+      if (!folder) throw new Error(`${path.posix.basename(to.path)} is outside the workspace and has no folder-qualified path.`);
+      const sameName = (vscode.workspace.workspaceFolders ?? []).filter((f) => f.name === folder.name);
+      if (sameName.length > 1) {
+        throw new Error(`Several workspace folders are named "${folder.name}"; rename one to use folder-qualified links.`);
+      }
+      return `/${folder.name}/${path.posix.relative(folder.uri.path, to.path)}`;
+    }
+  }
+}
+
+/**
+ * Resolves a link destination against the note it is written in; links with a URI scheme are "external".
+ * The path is percent-decoded (`my%20shot.png` is
+ * `my shot.png` on disk; invalid escapes are kept as written); the fragment is returned as written.
+ */
 export function resolveHrefToUri(fromUri: vscode.Uri, href: string): ResolvedLink | "external" {
-  if (/^https?:\/\//i.test(href)) return "external";
-  if (/^mailto:/i.test(href)) return "external";
+  // Any URI scheme (`https:`, `mailto:`, `data:`, `vscode:`, `file:`, ...); a one-letter "scheme" is a Windows drive.
+  if (/^[a-z][a-z0-9+.-]+:/i.test(href)) return "external";
 
-  const { pathPart, fragment } = splitHref(href);
+  const { pathPart: encodedPath, fragment } = splitHref(href);
+  const pathPart = decodeLinkPath(encodedPath);
   if (pathPart.trim().length === 0) {
     return { targetUri: fromUri, fragment };
   }
 
-  const folder = vscode.workspace.getWorkspaceFolder(fromUri);
-  const basePath = pathPart.startsWith("/") && folder ? folder.uri.path : path.posix.dirname(fromUri.path);
-  const resolvedPath = path.posix.normalize(path.posix.join(basePath, pathPart));
-  const targetUri = fromUri.with({ path: resolvedPath });
-  return { targetUri, fragment };
+  if (!pathPart.startsWith("/")) {
+    const resolvedPath = path.posix.normalize(path.posix.join(path.posix.dirname(fromUri.path), pathPart));
+    return { targetUri: fromUri.with({ path: resolvedPath }), fragment };
+  }
+
+  // `/name/...` names a workspace folder under the folder-qualified style; otherwise `/` is the note's own folder.
+  const qualified = getLinkPathStyle(fromUri) === "folderQualified" ? splitFolderQualifiedPath(pathPart) : undefined;
+  const base = qualified?.folder.uri ?? vscode.workspace.getWorkspaceFolder(fromUri)?.uri;
+  const rest = qualified?.rest ?? pathPart;
+  const resolvedPath = path.posix.normalize(path.posix.join(base?.path ?? path.posix.dirname(fromUri.path), rest));
+  return { targetUri: (base ?? fromUri).with({ path: resolvedPath }), fragment };
 }
 
-export async function openLink(fromUri: vscode.Uri, href: string): Promise<void> {
+function decodeLinkPath(linkPath: string): string {
+  try {
+    return decodeURIComponent(linkPath);
+  } catch {
+    return linkPath;
+  }
+}
+
+function splitFolderQualifiedPath(pathPart: string): { folder: vscode.WorkspaceFolder; rest: string } | undefined {
+  const slash = pathPart.indexOf("/", 1);
+  const name = slash === -1 ? pathPart.slice(1) : pathPart.slice(1, slash);
+  if (name.length === 0) return undefined;
+  const folder = (vscode.workspace.workspaceFolders ?? []).find((f) => f.name === name);
+  return folder ? { folder, rest: slash === -1 ? "" : pathPart.slice(slash) } : undefined;
+}
+
+export type OpenLinkOptions = {
+  toSide?: boolean;
+  /**
+   * Opens a Markdown target; `line` is the 0-based line of the heading or anchor named by the `#fragment`, if found.
+   * Defaults to the text editor.
+   */
+  openMarkdown?: (document: vscode.TextDocument, line: number | undefined, viewColumn: vscode.ViewColumn) => Promise<void>;
+};
+
+export async function openLink(fromUri: vscode.Uri, href: string, options: OpenLinkOptions = {}): Promise<void> {
   const resolved = resolveHrefToUri(fromUri, href);
   if (resolved === "external") {
     await vscode.env.openExternal(vscode.Uri.parse(href));
     return;
   }
 
+  const viewColumn = options.toSide ? vscode.ViewColumn.Beside : vscode.ViewColumn.Active;
+  const linePosition = parseLineFragment(resolved.fragment);
   const ext = path.posix.extname(resolved.targetUri.path).toLowerCase();
-  if (ext && ext !== ".md") {
+  if (ext && !isMarkdownUri(resolved.targetUri)) {
     // Let VS Code handle images/PDFs via its default viewer (opening as TextDocument can fail).
-    await vscode.commands.executeCommand("vscode.open", resolved.targetUri);
+    const selection = linePosition ? new vscode.Range(linePosition, linePosition) : undefined;
+    await vscode.commands.executeCommand("vscode.open", resolved.targetUri, { viewColumn, selection });
     return;
   }
 
   const doc = await vscode.workspace.openTextDocument(resolved.targetUri);
-  const editor = await vscode.window.showTextDocument(doc, { preview: false });
-
-  if (resolved.fragment && resolved.fragment.length > 0) {
-    const headings = extractHeadings(doc.getText());
-    const hit = headings.find((h) => h.slug === resolved.fragment);
-    if (hit) {
-      const pos = new vscode.Position(hit.startLine, 0);
-      const range = new vscode.Range(pos, pos);
-      editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
-      editor.selection = new vscode.Selection(pos, pos);
-    }
-  }
+  const line = findHeadingLine(doc, decodeFragment(resolved.fragment)) ?? linePosition?.line;
+  await (options.openMarkdown ?? showTextDocumentAt)(doc, line, viewColumn);
 }
 
-export async function getPreviewText(fromUri: vscode.Uri, href: string): Promise<{ title: string; text: string }> {
-  const resolved = resolveHrefToUri(fromUri, href);
-  if (resolved === "external") {
-    return { title: href, text: href };
-  }
-
-  const rel = vscode.workspace.asRelativePath(resolved.targetUri);
-  const ext = path.posix.extname(resolved.targetUri.path).toLowerCase();
-  const imageExts = new Set([".png", ".jpg", ".jpeg", ".gif", ".webp", ".svg"]);
-  if (imageExts.has(ext)) {
-    return { title: rel, text: "(No text preview for image files)" };
-  }
-  if (ext && ext !== ".md") {
-    return { title: rel, text: `(Text preview not supported for: ${ext})` };
-  }
-
-  const doc = await vscode.workspace.openTextDocument(resolved.targetUri);
-  const text = doc.getText();
-  const lines = text.split(/\r?\n/);
-
-  if (resolved.fragment) {
-    const headings = extractHeadings(text);
-    const hit = headings.find((h) => h.slug === resolved.fragment);
-    if (hit) {
-      const start = hit.startLine;
-      const excerpt = lines.slice(start, Math.min(lines.length, start + 12)).join("\n");
-      return { title: `${vscode.workspace.asRelativePath(resolved.targetUri)}#${resolved.fragment}`, text: excerpt };
-    }
-  }
+export async function showTextDocumentAt(
+  doc: vscode.TextDocument,
+  line: number | undefined,
+  viewColumn: vscode.ViewColumn
+): Promise<void> {
+  const editor = await vscode.window.showTextDocument(doc, { preview: false, viewColumn });
+  if (line === undefined) return;
+  const pos = new vscode.Position(line, 0);
+  editor.revealRange(new vscode.Range(pos, pos), vscode.TextEditorRevealType.InCenter);
+  editor.selection = new vscode.Selection(pos, pos);
+}
 
-  const excerpt = lines.slice(0, 12).join("\n");
-  return { title: rel, text: excerpt };
+function findHeadingLine(doc: vscode.TextDocument, slug: string | undefined): number | undefined {
+  if (!slug) return undefined;
+  return extractLinkTargets(doc.getText(), getSlugStyle(doc.uri)).find((t) => t.slug === slug)?.line;
 }
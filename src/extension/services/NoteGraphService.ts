@@ -0,0 +1,41 @@
+import * as vscode from "vscode";
+import { NoteGraph, NoteGraphEdge, NoteGraphNode } from "../../shared/noteGraph";
+import { WorkspaceIndex } from "./WorkspaceIndex";
+
+/** Builds the note graph from the index: one node per indexed note, one edge per linked pair of notes. */
+export function buildNoteGraph(index: WorkspaceIndex): NoteGraph {
+  const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+  const files = index.getMarkdownFiles();
+  const ids = new Set(files.map((u) => u.toString()));
+  const linked = new Set<string>();
+  const edges: NoteGraphEdge[] = [];
+  const seenEdges = new Set<string>();
+
+  for (const uri of files) {
+    const source = uri.toString();
+    for (const link of index.getLinks(uri)) {
+      const target = link.targetUri;
+      if (target === source || !ids.has(target)) continue;
+      linked.add(source);
+      linked.add(target);
+      const key = `${source}\u0000${target}`;
+      if (seenEdges.has(key)) continue;
+      seenEdges.add(key);
+      edges.push({ source, target });
+    }
+  }
+
+  const nodes: NoteGraphNode[] = files.map((uri) => {
+    const id = uri.toString();
+    const note = index.getNote(uri);
+    const relPath = vscode.workspace.asRelativePath(uri, multiRoot);
+    return {
+      id,
+      title: note?.title ?? relPath,
+      path: relPath,
+      tags: note?.tags ?? [],
+      orphan: !linked.has(id)
+    };
+  });
+  return { nodes, edges };
+}
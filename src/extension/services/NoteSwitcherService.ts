@@ -0,0 +1,118 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { Heading } from "./HeadingService";
+import { WorkspaceIndex } from "./WorkspaceIndex";
+
+export type NoteMatch = {
+  uri: vscode.Uri;
+  title: string;
+  relPath: string;
+  /** Set for `note > heading` results. */
+  heading?: Heading;
+  /** The alias that matched, when it scored better than the title and file name. */
+  alias?: string;
+  score: number;
+};
+
+// Headings rank below notes that match equally well.
+const HEADING_PENALTY = 5;
+
+/**
+ * Ranks indexed notes against `query`, fuzzily, by file name, title, frontmatter `aliases` and relative path.
+ * Headings are matched too; `note > heading` narrows the note first and then matches only headings.
+ * An empty query lists every note by title.
+ */
+export function searchNotes(index: WorkspaceIndex, query: string, limit: number): NoteMatch[] {
+  const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+  const sep = query.indexOf(">");
+  const noteQuery = (sep >= 0 ? query.slice(0, sep) : query).trim();
+  const headingQuery = sep >= 0 ? query.slice(sep + 1).trim() : "";
+  const matches: NoteMatch[] = [];
+
+  for (const uri of index.getMarkdownFiles()) {
+    const note = index.getNote(uri);
+    const relPath = vscode.workspace.asRelativePath(uri, multiRoot);
+    const title = note?.title ?? path.posix.basename(uri.path);
+    const fileName = path.posix.basename(uri.path, path.posix.extname(uri.path));
+
+    const fields: { text: string; weight: number; alias?: string }[] = [
+      { text: title, weight: 1 },
+      { text: fileName, weight: 1 },
+      ...(note?.aliases ?? []).map((a) => ({ text: a, weight: 1, alias: a })),
+      { text: relPath, weight: 0.8 }
+    ];
+    let noteScore: number | null = null;
+    let alias: string | undefined;
+    for (const field of fields) {
+      const s = fuzzyScore(noteQuery, field.text);
+      if (s === null || (noteScore !== null && s * field.weight <= noteScore)) continue;
+      noteScore = s * field.weight;
+      alias = field.alias;
+    }
+
+    if (sep < 0) {
+      if (noteScore !== null) matches.push({ uri, title, relPath, alias, score: noteScore });
+      if (noteQuery.length === 0) continue;
+    } else if (noteScore === null) {
+      continue;
+    }
+
+    for (const heading of note?.headings ?? []) {
+      if (heading.level === 1 && heading.text === title) continue;
+      const s = fuzzyScore(sep >= 0 ? headingQuery : noteQuery, heading.text);
+      if (s === null) continue;
+      const score = sep >= 0 ? s + (noteScore ?? 0) * 0.1 : s - HEADING_PENALTY;
+      matches.push({ uri, title, relPath, heading, score });
+    }
+  }
+
+  if (query.trim().length === 0) return matches.sort((a, b) => a.title.localeCompare(b.title)).slice(0, limit);
+  return matches.sort((a, b) => b.score - a.score || a.relPath.localeCompare(b.relPath)).slice(0, limit);
+}
+
+/**
+ * Scores `text` against `query`: every whitespace-separated word of the query must appear in order
+ * (not necessarily contiguous), case-insensitively. Consecutive characters, word starts and prefixes
+ * score higher; `null` means no match.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const words = query.toLowerCase().split(/\s+/).filter((w) => w.length > 0);
+  if (words.length === 0) return 0;
+  const target = text.toLowerCase();
+  let total = 0;
+  for (const word of words) {
+    const s = scoreWord(word, target);
+    if (s === null) return null;
+    total += s;
+  }
+  // Prefer shorter texts when the matched characters are the same.
+  return total - target.length * 0.01;
+}
+
+function scoreWord(word: string, target: string): number | null {
+  // A contiguous occurrence beats any scattered one; prefer one that starts a word.
+  let best: number | null = null;
+  for (let at = target.indexOf(word); at >= 0; at = target.indexOf(word, at + 1)) {
+    const score = word.length * 4 + (at === 0 ? 10 : isWordStart(target, at) ? 7 : 5);
+    if (best === null || score > best) best = score;
+  }
+  if (best !== null) return best;
+
+  let score = 0;
+  let from = 0;
+  let prev = -2;
+  for (const ch of word) {
+    const at = target.indexOf(ch, from);
+    if (at < 0) return null;
+    score += 1;
+    if (at === prev + 1) score += 3;
+    if (isWordStart(target, at)) score += 2;
+    prev = at + ch.length - 1;
+    from = at + ch.length;
+  }
+  return score;
+}
+
+function isWordStart(target: string, at: number): boolean {
+  return at === 0 || /[\s\-_./\\]/.test(target[at - 1] ?? "");
+}
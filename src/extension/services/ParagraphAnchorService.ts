@@ -0,0 +1,74 @@
+import { findExplicitHeadingId, findHtmlAnchorIds } from "../../shared/headingIds";
+import { forEachLineOutsideFences } from "../../shared/referenceLinks";
+import { extractHeadings, extractLinkTargets } from "./HeadingService";
+import { createSlugger, SlugStyle } from "./SlugService";
+
+export type ParagraphAnchor = {
+  id: string;
+  /** Text for the copied link. */
+  label: string;
+  /** Where to insert the anchor; absent when the block already has a stable ID. */
+  insert?: { line: number; column: number; text: string };
+};
+
+// Blockquote and list markers (including task boxes) that the anchor must follow.
+const BLOCK_PREFIX_RE = /^\s*(?:>\s*)*(?:(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?)?/;
+const LIST_ITEM_RE = /^\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+/;
+
+/**
+ * Finds or plans a stable ID for the block at `line`.
+ * Headings get `{#slug}` with their current slug, so existing links keep working once the text changes.
+ * Paragraphs and list items get `<a id="..."></a>` in front of their first line.
+ */
+export function planParagraphAnchor(markdown: string, line: number, slugStyle: SlugStyle): ParagraphAnchor {
+  const lines = markdown.split(/\r?\n/);
+  const text = lines[line] ?? "";
+  let inCode = true;
+  forEachLineOutsideFences(lines, (_t, l) => {
+    if (l === line) inCode = false;
+  });
+  if (inCode) throw new Error("The cursor is inside a code block.");
+
+  const headings = extractHeadings(markdown, slugStyle);
+  const onUnderline = /^\s*(=+|-+)\s*$/.test(text);
+  const heading = headings.find((h) => h.startLine === line) ?? (onUnderline ? headings.find((h) => h.startLine === line - 1) : undefined);
+  if (heading) {
+    const headingLine = lines[heading.startLine] ?? "";
+    if (findExplicitHeadingId(headingLine)) return { id: heading.slug, label: heading.text };
+    const column = headingLine.replace(/\s+#*\s*$/, "").length;
+    return { id: heading.slug, label: heading.text, insert: { line: heading.startLine, column, text: ` {#${heading.slug}}` } };
+  }
+
+  if (text.trim().length === 0) throw new Error("Place the cursor in a paragraph, list item or heading.");
+
+  // Walk up to the first line of the paragraph (or the list item the cursor is in).
+  let start = line;
+  while (start > 0 && !LIST_ITEM_RE.test(lines[start] ?? "")) {
+    const prev = lines[start - 1] ?? "";
+    if (prev.trim().length === 0 || /^\s*(#{1,6}\s|```|~~~)/.test(prev)) break;
+    start--;
+  }
+
+  const first = lines[start] ?? "";
+  const column = (BLOCK_PREFIX_RE.exec(first)?.[0] ?? "").length;
+  const existing = findHtmlAnchorIds(first).find((a) => a.from === column);
+  const label = summarize(lines.slice(start, line + 1).join(" "));
+  if (existing) return { id: existing.id, label };
+
+  const taken = new Set(extractLinkTargets(markdown, slugStyle).map((t) => t.slug));
+  const base = createSlugger("github")(label.split(/\s+/).slice(0, 6).join(" ")) || "paragraph";
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  return { id, label, insert: { line: start, column, text: `<a id="${id}"></a>` } };
+}
+
+function summarize(text: string): string {
+  const plain = text
+    .replace(BLOCK_PREFIX_RE, "")
+    .replace(/<[^>]*>/g, "")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`~]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return plain.length > 40 ? `${plain.slice(0, 40).trimEnd()}…` : plain;
+}
@@ -0,0 +1,58 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { PastedFileReference } from "../../shared/pasteLinks";
+import { computeMarkdownLinkPath } from "./LinkService";
+
+/**
+ * Turns a pasted file reference into a Markdown link in the configured path style (`#L12` for `path:12`),
+ * labelled with the selection or the file name. `null` when the file does not exist or lies outside the workspace;
+ * throws when the file cannot be linked in that style.
+ */
+export async function buildPastedFileLink(
+  fromUri: vscode.Uri,
+  ref: PastedFileReference,
+  selectedText: string
+): Promise<string | null> {
+  const target = await resolveFileReference(fromUri, ref);
+  if (!target) return null;
+
+  const rel = computeMarkdownLinkPath(fromUri, target);
+  const fragment = ref.line !== undefined ? `#L${ref.line}${ref.column !== undefined ? `C${ref.column}` : ""}` : "";
+  const name = path.posix.basename(target.path);
+  const label = selectedText.length > 0 ? selectedText : ref.line !== undefined ? `${name}:${ref.line}` : name;
+  return `[${label.replace(/([[\]])/g, "\\$1")}](${rel}${fragment})`;
+}
+
+async function resolveFileReference(fromUri: vscode.Uri, ref: PastedFileReference): Promise<vscode.Uri | null> {
+  const candidates: vscode.Uri[] = [];
+  if (ref.isUri) {
+    let uri: vscode.Uri;
+    try {
+      uri = vscode.Uri.parse(ref.target, true);
+    } catch {
+      return null;
+    }
+    // Keep the note's scheme/authority (remote workspaces) so the relative path can be computed.
+    candidates.push(fromUri.with({ path: uri.path }));
+  } else if (ref.target.startsWith("/") || /^[A-Za-z]:[\\/]/.test(ref.target) || ref.target.startsWith("\\\\")) {
+    candidates.push(fromUri.with({ path: vscode.Uri.file(ref.target).path }));
+  } else {
+    // Copy Relative Path is relative to the workspace folder; try the note's folder first.
+    const rel = ref.target.replace(/\\/g, "/");
+    const own = vscode.workspace.getWorkspaceFolder(fromUri);
+    const folders = [...(own ? [own] : []), ...(vscode.workspace.workspaceFolders ?? []).filter((f) => f !== own)];
+    for (const folder of folders) candidates.push(vscode.Uri.joinPath(folder.uri, rel));
+    candidates.push(fromUri.with({ path: path.posix.join(path.posix.dirname(fromUri.path), rel) }));
+  }
+
+  for (const uri of candidates) {
+    if (!vscode.workspace.getWorkspaceFolder(uri)) continue;
+    try {
+      await vscode.workspace.fs.stat(uri);
+      return uri;
+    } catch {
+      // not found -> next candidate
+    }
+  }
+  return null;
+}
@@ -0,0 +1,142 @@
+import * as path from "node:path";
+import MarkdownIt from "markdown-it";
+import * as vscode from "vscode";
+import { findExplicitHeadingId } from "../../shared/headingIds";
+import { collectLinkDefinitions } from "../../shared/referenceLinks";
+import { extractHeadings, extractHtmlAnchors, toLinkTargets } from "./HeadingService";
+import { computeMarkdownLinkPath, decodeFragment, isMarkdownUri, resolveHrefToUri, splitHref } from "./LinkService";
+import { getSlugStyle } from "./Settings";
+import { readMarkdownText } from "./WorkspaceIndex";
+
+export type LinkPreview = {
+  title: string;
+  /** Plain-text fallback (shown when `html` is absent). */
+  text: string;
+  html?: string;
+};
+
+/** Resolution context for one render; read by the renderer rules below. */
+type PreviewEnv = {
+  resolveImage: (src: string) => string | null;
+  resolveLink: (href: string) => string;
+};
+
+const MAX_PREVIEW_LINES = 120;
+const IMAGE_EXTS = new Set([".png", ".jpg", ".jpeg", ".gif", ".webp", ".svg"]);
+
+// Raw HTML stays disabled: the excerpt is injected into the editor webview, so only markdown-it's own
+// escaped output (with its default javascript:/vbscript:/file: link validation) is trusted.
+const md = new MarkdownIt({ html: false, linkify: true, typographer: false });
+
+const defaultImage = md.renderer.rules.image;
+md.renderer.rules.image = (tokens, idx, options, env: PreviewEnv, self) => {
+  const token = tokens[idx];
+  // markdown-it percent-encodes destinations, which resolveHrefToUri decodes.
+  const src = env.resolveImage(token.attrGet("src") ?? "");
+  if (!src) return `<span class="qm-preview-missing-image">${md.utils.escapeHtml(token.content || "image")}</span>`;
+  token.attrSet("src", src);
+  return defaultImage ? defaultImage(tokens, idx, options, env, self) : self.renderToken(tokens, idx, options);
+};
+
+md.renderer.rules.link_open = (tokens, idx, options, env: PreviewEnv, self) => {
+  const token = tokens[idx];
+  const href = token.attrGet("href");
+  if (href !== null) token.attrSet("href", env.resolveLink(href));
+  return self.renderToken(tokens, idx, options);
+};
+
+/**
+ * Builds the hover preview for `href` as seen from `fromUri`: the linked heading's section (or the top of the note)
+ * rendered to HTML, with images resolved to webview URIs and relative links rewritten to be relative to `fromUri`.
+ */
+export async function renderLinkPreview(
+  fromUri: vscode.Uri,
+  href: string,
+  webview: vscode.Webview,
+  options: { allowExternalImages: boolean }
+): Promise<LinkPreview> {
+  const resolved = resolveHrefToUri(fromUri, href);
+  if (resolved === "external") {
+    return { title: href, text: href };
+  }
+
+  const target = resolved.targetUri;
+  const rel = vscode.workspace.asRelativePath(target);
+  const ext = path.posix.extname(target.path).toLowerCase();
+  if (IMAGE_EXTS.has(ext)) {
+    const src = md.utils.escapeHtml(webview.asWebviewUri(target).toString());
+    return { title: rel, text: "", html: `<p><img src="${src}" alt="" /></p>` };
+  }
+  if (ext && !isMarkdownUri(target)) {
+    return { title: rel, text: `(Text preview not supported for: ${ext})` };
+  }
+
+  const text = await readMarkdownText(target);
+  const lines = text.split(/\r?\n/);
+  const fragment = decodeFragment(resolved.fragment);
+
+  let title = rel;
+  let start = frontmatterEnd(lines);
+  let end = lines.length;
+  if (fragment) {
+    const headings = extractHeadings(text, getSlugStyle(target));
+    const hit = toLinkTargets(headings, extractHtmlAnchors(text)).find((t) => t.slug === fragment);
+    if (hit) {
+      title = `${rel}#${fragment}`;
+      start = hit.line;
+      // A heading's section ends at the next heading of the same or a higher level; an anchor's at the next heading.
+      const next = headings.find((h) => h.startLine > hit.line && (hit.level === undefined || h.level <= hit.level));
+      if (next) end = next.startLine;
+    }
+  }
+  const excerptLines = lines.slice(start, Math.min(end, start + MAX_PREVIEW_LINES));
+  const truncated = end > start + MAX_PREVIEW_LINES;
+
+  // Definitions usually live at the end of the note; carry them along so reference links in the excerpt resolve.
+  const definitions = [...collectLinkDefinitions(lines).values()]
+    .filter((d) => d.line < start || d.line >= start + excerptLines.length)
+    .map((d) => lines[d.line] ?? "");
+
+  const env: PreviewEnv = {
+    resolveImage: (src) => {
+      if (/^https?:\/\//i.test(src)) return options.allowExternalImages ? src : null;
+      if (/^data:/i.test(src)) return src;
+      const image = resolveHrefToUri(target, src);
+      if (image === "external") return null;
+      return webview.asWebviewUri(image.targetUri).toString();
+    },
+    resolveLink: (linkHref) => {
+      const link = resolveHrefToUri(target, linkHref);
+      if (link === "external") return linkHref;
+      const { fragment: linkFragment } = splitHref(linkHref);
+      const suffix = linkFragment !== undefined ? `#${linkFragment}` : "";
+      if (link.targetUri.toString() === fromUri.toString()) return suffix || "#";
+      try {
+        return `${computeMarkdownLinkPath(fromUri, link.targetUri, "relative")}${suffix}`;
+      } catch {
+        return linkHref;
+      }
+    }
+  };
+
+  const source = [...excerptLines.map(stripTargetMarkup), "", ...definitions].join("\n");
+  let html = md.render(source, env);
+  if (truncated) html += `<p class="qm-preview-more">…</p>`;
+  return { title, text: excerptLines.join("\n"), html };
+}
+
+/** Drops `{#id}` heading suffixes and empty `<a id>` anchors, which would otherwise render as literal text (raw HTML is off). */
+function stripTargetMarkup(line: string): string {
+  const withoutAnchors = line.replace(/<a\s[^>]*>\s*<\/a>/gi, "");
+  if (!/^ {0,3}#{1,6}\s/.test(withoutAnchors)) return withoutAnchors;
+  const explicit = findExplicitHeadingId(withoutAnchors);
+  return explicit ? withoutAnchors.slice(0, explicit.from) : withoutAnchors;
+}
+
+function frontmatterEnd(lines: readonly string[]): number {
+  if (lines[0] !== "---") return 0;
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i] === "---" || lines[i] === "...") return i + 1;
+  }
+  return 0;
+}
@@ -0,0 +1,141 @@
+import {
+  collectLinkDefinitions,
+  findInlineLinks,
+  findReferenceLinks,
+  forEachProseLine,
+  normalizeReferenceLabel,
+  parseLinkDefinition
+} from "../../shared/referenceLinks";
+
+/** A replacement in document offsets. */
+export type TextReplacement = {
+  from: number;
+  to: number;
+  text: string;
+};
+
+export type LinkStyleConversion = {
+  replacements: TextReplacement[];
+  count: number;
+};
+
+/**
+ * Rewrites `[text][ref]`, `[ref][]` and defined `[ref]` usages as inline links and removes the definitions
+ * that were used. Undefined references and unused definitions are left untouched.
+ */
+export function convertToInlineLinks(markdown: string): LinkStyleConversion {
+  const lines = markdown.split(/\r?\n/);
+  const starts = lineStartOffsets(markdown);
+  const definitions = collectLinkDefinitions(lines);
+  const replacements: TextReplacement[] = [];
+  const used = new Set<string>();
+  let count = 0;
+
+  forEachProseLine(lines, (text, line) => {
+    for (const ref of findReferenceLinks(text, (key) => definitions.has(key))) {
+      const def = definitions.get(ref.key);
+      if (!def) continue;
+      const title = def.title !== undefined ? ` "${def.title.replace(/"/g, '\\"')}"` : "";
+      replacements.push({
+        from: starts[line] + ref.from,
+        to: starts[line] + ref.to,
+        text: `${ref.image ? "!" : ""}[${ref.text}](${formatDestination(def.href)}${title})`
+      });
+      used.add(ref.key);
+      count++;
+    }
+  });
+
+  const removedLines = new Set([...definitions].filter(([key]) => used.has(key)).map(([, def]) => def.line));
+
+  // A trailing block of removed definitions goes away together with the blank lines before it.
+  let keptEnd = lines.length - 1;
+  while (keptEnd >= 0 && (removedLines.has(keptEnd) || (lines[keptEnd] ?? "").trim().length === 0)) keptEnd--;
+  if ([...removedLines].some((l) => l > keptEnd)) {
+    const eol = markdown.includes("\r\n") ? "\r\n" : "\n";
+    const from = keptEnd >= 0 ? starts[keptEnd] + (lines[keptEnd] ?? "").length : 0;
+    replacements.push({ from, to: markdown.length, text: keptEnd >= 0 && markdown.endsWith("\n") ? eol : "" });
+  }
+
+  for (const line of removedLines) {
+    if (line > keptEnd) continue;
+    // Drop the whole line including its line break.
+    replacements.push({ from: starts[line], to: starts[line + 1], text: "" });
+  }
+
+  return { replacements: replacements.sort((a, b) => a.from - b.from), count };
+}
+
+/**
+ * Rewrites inline `[text](href "title")` links and images as `[text][n]`, reusing an existing definition
+ * with the same destination and title, and appends the new definitions at the end of the document.
+ * Links in code blocks and inline code are left alone.
+ */
+export function convertToReferenceLinks(markdown: string): LinkStyleConversion {
+  const lines = markdown.split(/\r?\n/);
+  const starts = lineStartOffsets(markdown);
+  const eol = markdown.includes("\r\n") ? "\r\n" : "\n";
+  const definitions = collectLinkDefinitions(lines);
+  const labelByTarget = new Map<string, string>();
+  for (const def of definitions.values()) {
+    const target = `${def.href}\u0000${def.title ?? ""}`;
+    if (!labelByTarget.has(target)) labelByTarget.set(target, def.label);
+  }
+
+  let nextNumber = 1;
+  const newLabel = (): string => {
+    while (definitions.has(String(nextNumber))) nextNumber++;
+    return String(nextNumber++);
+  };
+
+  const replacements: TextReplacement[] = [];
+  const added: string[] = [];
+  let count = 0;
+  forEachProseLine(lines, (text, line) => {
+    if (parseLinkDefinition(text, line)) return;
+    // An image inside a link's text is part of that link's replacement.
+    let linkEnd = -1;
+    for (const link of findInlineLinks(text)) {
+      if (link.from < linkEnd) continue;
+      linkEnd = link.to;
+
+      const target = `${link.href}\u0000${link.title ?? ""}`;
+      let label = labelByTarget.get(target);
+      if (!label) {
+        label = newLabel();
+        labelByTarget.set(target, label);
+        definitions.set(normalizeReferenceLabel(label), { label, href: link.href, title: link.title, line: -1, hrefFrom: 0, hrefTo: 0 });
+        const title = link.title !== undefined ? ` "${link.title.replace(/"/g, '\\"')}"` : "";
+        added.push(`[${label}]: ${formatDestination(link.href)}${title}`);
+      }
+      replacements.push({
+        from: starts[line] + link.from,
+        to: starts[line] + link.to,
+        text: `${link.image ? "!" : ""}[${link.text}][${label}]`
+      });
+      count++;
+    }
+  });
+
+  if (added.length > 0) {
+    const lastText = [...lines].reverse().find((l) => l.trim().length > 0) ?? "";
+    const endsWithEol = markdown.endsWith("\n");
+    const gap = parseLinkDefinition(lastText, 0) ? "" : eol;
+    const insert = `${endsWithEol ? "" : eol}${gap}${added.join(eol)}${eol}`;
+    replacements.push({ from: markdown.length, to: markdown.length, text: insert });
+  }
+
+  return { replacements, count };
+}
+
+export function lineStartOffsets(markdown: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < markdown.length; i++) {
+    if (markdown[i] === "\n") starts.push(i + 1);
+  }
+  return starts;
+}
+
+function formatDestination(href: string): string {
+  return /[\s()]/.test(href) ? `<${href}>` : href;
+}
@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import { QuenchSettings } from "../../shared/protocol";
+import { SLUG_STYLES, SlugStyle } from "./SlugService";
 
 export function getQuenchSettings(resource?: vscode.Uri): QuenchSettings {
   const quench = vscode.workspace.getConfiguration("quench", resource);
@@ -10,7 +11,10 @@ export function getQuenchSettings(resource?: vscode.Uri): QuenchSettings {
   const editorLineWrapping = quench.get<boolean>("editor.lineWrapping", true);
   const syntaxVisibility = quench.get<QuenchSettings["syntaxVisibility"]>("preview.syntaxVisibility", "smart");
   const previewOnHover = quench.get<boolean>("links.previewOnHover", true);
-  const slugStyle = quench.get<QuenchSettings["slugStyle"]>("links.slugStyle", "github");
+  const linkDiagnostics = quench.get<boolean>("links.diagnostics", true);
+  const updateLinksOnRename = quench.get<QuenchSettings["updateLinksOnRename"]>("links.updateOnRename", "ask");
+  const slugStyle = getSlugStyle(resource);
+  const openMarkdownLinksIn = quench.get<QuenchSettings["openMarkdownLinksIn"]>("links.openMarkdownIn", "quench");
 
   const attachmentsLocation = quench.get<QuenchSettings["attachments"]["location"]>(
     "attachments.location",
@@ -19,6 +23,17 @@ export function getQuenchSettings(resource?: vscode.Uri): QuenchSettings {
   const attachmentsFolderPath = quench.get<string>("attachments.folderPath", "attachments");
   const attachmentsSubfolderName = quench.get<string>("attachments.subfolderName", "attachments");
   const attachmentsNaming = quench.get<QuenchSettings["attachments"]["naming"]>("attachments.naming", "timestamp");
+  const attachmentsNameTemplate = quench.get<string>("attachments.nameTemplate", "{note}-{date:YYYYMMDD}-{counter}");
+  const attachmentsDeduplicate = quench.get<QuenchSettings["attachments"]["deduplicate"]>(
+    "attachments.deduplicate",
+    "attachmentFolder"
+  );
+  const attachmentsMaxFileSizeMB = Math.max(0, quench.get<number>("attachments.maxFileSizeMB", 50));
+  const imageFormat = quench.get<QuenchSettings["attachments"]["images"]["format"]>("attachments.images.format", "keep");
+  const imageQuality = Math.min(100, Math.max(1, quench.get<number>("attachments.images.quality", 85)));
+  const imageMaxWidth = Math.max(0, quench.get<number>("attachments.images.maxWidth", 0));
+  const imageMaxHeight = Math.max(0, quench.get<number>("attachments.images.maxHeight", 0));
+  const imageStripMetadata = quench.get<boolean>("attachments.images.stripMetadata", true);
 
   const allowExternalImages = quench.get<boolean>("security.allowExternalImages", false);
   const allowHtmlEmbeds = quench.get<boolean>("security.allowHtmlEmbeds", false);
@@ -37,12 +52,25 @@ export function getQuenchSettings(resource?: vscode.Uri): QuenchSettings {
     },
     syntaxVisibility,
     previewOnHover,
+    linkDiagnostics,
+    updateLinksOnRename,
     slugStyle,
+    openMarkdownLinksIn,
     attachments: {
       location: attachmentsLocation,
       folderPath: attachmentsFolderPath,
       subfolderName: attachmentsSubfolderName,
-      naming: attachmentsNaming
+      naming: attachmentsNaming,
+      nameTemplate: attachmentsNameTemplate,
+      deduplicate: attachmentsDeduplicate,
+      maxFileSizeMB: attachmentsMaxFileSizeMB,
+      images: {
+        format: imageFormat,
+        quality: imageQuality,
+        maxWidth: imageMaxWidth,
+        maxHeight: imageMaxHeight,
+        stripMetadata: imageStripMetadata
+      }
     },
     security: {
       allowExternalImages,
@@ -51,3 +79,61 @@ export function getQuenchSettings(resource?: vscode.Uri): QuenchSettings {
     }
   };
 }
+
+/**
+ * Workspace index scope. Extension-side only (not part of QuenchSettings sent to the webview).
+ */
+export type IndexSettings = {
+  include: string[];
+  exclude: string[];
+  /** Lower-case, with a leading dot (e.g. ".md"). Always contains ".md". */
+  markdownExtensions: string[];
+  respectGitignore: boolean;
+};
+
+export function getIndexSettings(resource?: vscode.Uri): IndexSettings {
+  const quench = vscode.workspace.getConfiguration("quench", resource);
+  const include = quench.get<string[]>("index.include", []);
+  const exclude = quench.get<string[]>("index.exclude", ["**/node_modules/**", "**/.git/**"]);
+  const extensions = quench.get<string[]>("index.markdownExtensions", [".md", ".markdown", ".mdown"]);
+  const respectGitignore = quench.get<boolean>("index.respectGitignore", true);
+
+  const markdownExtensions = new Set([".md"]);
+  for (const ext of extensions) {
+    const trimmed = ext.trim().toLowerCase();
+    if (trimmed.length > 0) markdownExtensions.add(trimmed.startsWith(".") ? trimmed : `.${trimmed}`);
+  }
+  return { include, exclude, markdownExtensions: [...markdownExtensions], respectGitignore };
+}
+
+/**
+ * Heading anchor style for notes in the folder of `resource`. Unknown values fall back to GitHub,
+ * because a wrong style would silently break every `#fragment`.
+ */
+export function getSlugStyle(resource?: vscode.Uri): SlugStyle {
+  const value = vscode.workspace.getConfiguration("quench", resource).get<string>("links.slugStyle", "github");
+  return SLUG_STYLES.find((s) => s === value) ?? "github";
+}
+
+/** `auto` provides heading symbols only while VS Code's built-in Markdown extension, which has its own, is disabled. */
+export type HeadingSymbolsMode = "always" | "auto" | "never";
+
+const HEADING_SYMBOLS_MODES: readonly HeadingSymbolsMode[] = ["always", "auto", "never"];
+
+export function getHeadingSymbolsMode(): HeadingSymbolsMode {
+  const value = vscode.workspace.getConfiguration("quench").get<string>("symbols.headings", "always");
+  return HEADING_SYMBOLS_MODES.find((m) => m === value) ?? "always";
+}
+
+export type LinkPathStyle = "relative" | "workspaceRoot" | "folderQualified";
+
+const LINK_PATH_STYLES: readonly LinkPathStyle[] = ["relative", "workspaceRoot", "folderQualified"];
+
+/**
+ * How inserted links spell the path: `./note.md`, `/docs/note.md` (root of the note's workspace folder),
+ * or `/folder/docs/note.md` (workspace folder name first). Also decides how a leading `/` is resolved.
+ */
+export function getLinkPathStyle(resource?: vscode.Uri): LinkPathStyle {
+  const value = vscode.workspace.getConfiguration("quench", resource).get<string>("links.pathStyle", "relative");
+  return LINK_PATH_STYLES.find((s) => s === value) ?? "relative";
+}
@@ -0,0 +1,77 @@
+import GithubSlugger from "github-slugger";
+import { QuenchSettings } from "../../shared/protocol";
+
+export type SlugStyle = QuenchSettings["slugStyle"];
+
+export const SLUG_STYLES: readonly SlugStyle[] = ["github", "gitlab", "azureDevOps", "mkdocs", "pandoc"];
+
+/** Turns heading texts into anchors; stateful, because duplicates get numbered in document order. */
+export type Slugger = (headingText: string) => string;
+
+/**
+ * Creates a slugger reproducing the anchors of a publishing platform:
+ * - `github`: github-slugger (punctuation removed, Unicode letters kept, duplicates `-1`, `-2`)
+ * - `gitlab`: like GitHub, but runs of hyphens collapse into one
+ * - `azureDevOps`: Azure DevOps wikis keep punctuation; only whitespace becomes `-`
+ * - `mkdocs`: Python-Markdown `toc` (non-ASCII dropped, duplicates `_1`, `_2`)
+ * - `pandoc`: `auto_identifiers` (leading non-letters dropped, `section` when nothing is left)
+ */
+export function createSlugger(style: SlugStyle): Slugger {
+  switch (style) {
+    case "github": {
+      const slugger = new GithubSlugger();
+      return (text) => slugger.slug(text);
+    }
+    case "gitlab":
+      return dedupe(
+        (text) =>
+          text
+            .trim()
+            .toLowerCase()
+            .replace(/[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu, "")
+            .replace(/ /g, "-")
+            .replace(/-{2,}/g, "-"),
+        "-"
+      );
+    case "azureDevOps":
+      return dedupe((text) => text.trim().toLowerCase().replace(/\s+/g, "-"), "-");
+    case "mkdocs":
+      return dedupe(
+        (text) =>
+          text
+            .normalize("NFKD")
+            .replace(/[^\x00-\x7f]/g, "")
+            .replace(/[^\w\s-]/g, "")
+            .trim()
+            .toLowerCase()
+            .replace(/[-\s]+/g, "-"),
+        "_",
+        true
+      );
+    case "pandoc":
+      return dedupe((text) => {
+        const slug = text
+          .toLowerCase()
+          .replace(/[^\p{L}\p{N}_\-.\s]/gu, "")
+          .trim()
+          .replace(/\s/g, "-")
+          .replace(/^[^\p{L}]+/u, "");
+        return slug.length > 0 ? slug : "section";
+      }, "-");
+  }
+}
+
+/**
+ * Numbers repeated slugs with `separator` + counter. With `numberEmpty` an empty slug is numbered too
+ * (Python-Markdown turns "" into "_1").
+ */
+function dedupe(slugify: (text: string) => string, separator: string, numberEmpty = false): Slugger {
+  const seen = new Set<string>();
+  return (text) => {
+    const base = slugify(text);
+    let slug = base;
+    for (let n = 1; seen.has(slug) || (numberEmpty && slug.length === 0); n++) slug = `${base}${separator}${n}`;
+    seen.add(slug);
+    return slug;
+  };
+}
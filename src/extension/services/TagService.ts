@@ -0,0 +1,64 @@
+import { forEachLineOutsideFences } from "../../shared/referenceLinks";
+
+const FRONTMATTER_RE = /^---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)\s*(?:\r?\n|$)/;
+
+// Obsidian-style: `#` at the start or after whitespace, then letters/digits/`_`/`-`/`/`, not purely numeric.
+const INLINE_TAG_RE = /(^|\s)#([\p{L}\p{N}_/-]+)/gu;
+
+/**
+ * Tags of a note, without the leading `#`: frontmatter `tags:` / `tag:` (inline list, comma-separated
+ * string or block list) plus inline `#tag`s outside code. Deduplicated case-insensitively, first spelling wins.
+ */
+export function extractTags(markdown: string): string[] {
+  const seen = new Map<string, string>();
+  const add = (raw: string) => {
+    const tag = raw.trim().replace(/^#/, "").replace(/\/+$/, "");
+    if (tag.length === 0 || /^\d+$/.test(tag)) return;
+    const key = tag.toLowerCase();
+    if (!seen.has(key)) seen.set(key, tag);
+  };
+
+  const fm = FRONTMATTER_RE.exec(markdown);
+  if (fm) frontmatterList(fm[1] ?? "", /^(?:tags|tag)$/i, /[,\s]+/).forEach(add);
+
+  const body = fm ? markdown.slice(fm[0].length) : markdown;
+  forEachLineOutsideFences(body.split(/\r?\n/), (text) => {
+    if (/^ {4,}|^\t/.test(text)) return; // indented code
+    const prose = text.replace(/`+[^`]*`+/g, " ");
+    for (const m of prose.matchAll(INLINE_TAG_RE)) add(m[2] ?? "");
+  });
+  return [...seen.values()];
+}
+
+/** Frontmatter `aliases:` / `alias:` (inline list, comma-separated string or block list); aliases may contain spaces. */
+export function extractAliases(markdown: string): string[] {
+  const fm = FRONTMATTER_RE.exec(markdown);
+  if (!fm) return [];
+  return frontmatterList(fm[1] ?? "", /^(?:aliases|alias)$/i, /,/).filter((a) => a.length > 0);
+}
+
+/** Values of the first key matching `key`; a scalar value is split with `separator`. */
+function frontmatterList(yaml: string, key: RegExp, separator: RegExp): string[] {
+  const lines = yaml.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const kv = /^([A-Za-z0-9_-]+)\s*:\s*(.*)$/.exec(lines[i] ?? "");
+    if (!kv || !key.test(kv[1] ?? "")) continue;
+    const value = (kv[2] ?? "").trim();
+    if (value.length > 0) {
+      const list = value.startsWith("[") && value.endsWith("]") ? value.slice(1, -1) : value;
+      return list.split(separator).map(unquote);
+    }
+    const out: string[] = [];
+    for (let j = i + 1; j < lines.length; j++) {
+      const item = /^\s+-\s+(.+)$/.exec(lines[j] ?? "");
+      if (!item) break;
+      out.push(unquote(item[1] ?? ""));
+    }
+    return out;
+  }
+  return [];
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
@@ -0,0 +1,146 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import { templateStaticPrefix } from "./AttachmentNameService";
+import { resolveAttachmentBaseDir } from "./AttachmentService";
+import { extractMarkdownLinks, isMarkdownUri, resolveHrefToUri } from "./LinkService";
+import { buildNoteGraph } from "./NoteGraphService";
+import { getQuenchSettings } from "./Settings";
+import { WorkspaceIndex } from "./WorkspaceIndex";
+
+export type UnusedAttachment = {
+  uri: vscode.Uri;
+  size: number;
+};
+
+export type AttachmentUsageReport = {
+  unusedAttachments: UnusedAttachment[];
+  /** Notes with no links to or from other notes (same definition as orphans in the note graph). */
+  notesWithoutLinks: vscode.Uri[];
+};
+
+// Folders shared with other content (workspace root, note folders) only count files that look like attachments.
+const ATTACHMENT_EXTS = new Set([
+  ".png",
+  ".jpg",
+  ".jpeg",
+  ".gif",
+  ".webp",
+  ".svg",
+  ".bmp",
+  ".avif",
+  ".pdf",
+  ".mp4",
+  ".webm",
+  ".mov",
+  ".mp3",
+  ".wav",
+  ".ogg",
+  ".m4a",
+  ".flac",
+  ".zip"
+]);
+
+/**
+ * Lists files in the attachment locations (per workspace folder, as configured by `quench.attachments.location`)
+ * that no indexed note references through `![](...)`, `<img src>`, `<audio>` / `<video>` `src`, links or reference
+ * definitions.
+ * Unsaved edits of open notes count as references, so nothing pasted since the last save is reported.
+ */
+export async function findUnusedAttachments(index: WorkspaceIndex): Promise<AttachmentUsageReport> {
+  await index.whenIdle();
+
+  const referenced = new Set<string>();
+  const notes = index.getMarkdownFiles();
+  for (const uri of notes) {
+    for (const link of index.getLinks(uri)) addReference(referenced, vscode.Uri.parse(link.targetUri));
+  }
+  for (const doc of vscode.workspace.textDocuments) {
+    if (!doc.isDirty || !isMarkdownUri(doc.uri)) continue;
+    for (const link of extractMarkdownLinks(doc.getText())) {
+      const resolved = resolveHrefToUri(doc.uri, link.href);
+      if (resolved !== "external") addReference(referenced, resolved.targetUri);
+    }
+  }
+
+  const candidates = new Map<string, vscode.Uri>();
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const settings = getQuenchSettings(folder.uri).attachments;
+    const folderTemplate =
+      settings.location === "specifiedFolder" ? settings.folderPath : settings.location === "subfolder" ? settings.subfolderName : "";
+    // Attachment folders only hold attachments; the root and note folders are shared with everything else.
+    // A folder path that starts with a `{token}` is scanned from the shared folder above it.
+    const dedicated = folderTemplate.length > 0 && templateStaticPrefix(folderTemplate).trim().length > 0;
+    // `{token}` folders and `/` in the name template put attachments below the base folder.
+    const nested =
+      dedicated ||
+      templateStaticPrefix(folderTemplate) !== folderTemplate ||
+      (settings.naming === "template" && settings.nameTemplate.includes("/"));
+    const noteDirs =
+      settings.location === "sameFolder" || settings.location === "subfolder"
+        ? new Set(index.getMarkdownFiles(folder).map((u) => u.with({ path: path.posix.dirname(u.path) }).toString()))
+        : new Set([folder.uri.toString()]);
+
+    for (const dir of noteDirs) {
+      let baseDir: vscode.Uri;
+      try {
+        baseDir = resolveAttachmentBaseDir(folder.uri, vscode.Uri.parse(dir), settings.location, settings);
+      } catch (err) {
+        throw new Error(`${folder.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      for (const uri of await listFiles(baseDir, nested)) {
+        if (isMarkdownUri(uri)) continue;
+        if (!dedicated && !ATTACHMENT_EXTS.has(path.posix.extname(uri.path).toLowerCase())) continue;
+        candidates.set(uri.toString(), uri);
+      }
+    }
+  }
+
+  const unusedAttachments: UnusedAttachment[] = [];
+  for (const [key, uri] of candidates) {
+    if (referenced.has(key)) continue;
+    unusedAttachments.push({ uri, size: await statSize(uri) });
+  }
+  unusedAttachments.sort((a, b) => a.uri.path.localeCompare(b.uri.path));
+
+  const notesWithoutLinks = buildNoteGraph(index)
+    .nodes.filter((n) => n.orphan)
+    .map((n) => vscode.Uri.parse(n.id))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  return { unusedAttachments, notesWithoutLinks };
+}
+
+async function listFiles(dir: vscode.Uri, recursive: boolean): Promise<vscode.Uri[]> {
+  let entries: [string, vscode.FileType][];
+  try {
+    entries = await vscode.workspace.fs.readDirectory(dir);
+  } catch {
+    return []; // The attachment folder has not been created yet.
+  }
+  const out: vscode.Uri[] = [];
+  for (const [name, type] of entries) {
+    if (name.startsWith(".")) continue;
+    const uri = vscode.Uri.joinPath(dir, name);
+    if (type & vscode.FileType.Directory) {
+      if (recursive && name !== "node_modules") out.push(...(await listFiles(uri, true)));
+    } else if (type & vscode.FileType.File) {
+      out.push(uri);
+    }
+  }
+  return out;
+}
+
+async function statSize(uri: vscode.Uri): Promise<number> {
+  try {
+    return (await vscode.workspace.fs.stat(uri)).size;
+  } catch {
+    return 0;
+  }
+}
+
+/** Records a (percent-decoded) link target; `image.png?raw=1` also references `image.png`. */
+function addReference(referenced: Set<string>, target: vscode.Uri) {
+  const bare = target.with({ query: "", fragment: "" });
+  referenced.add(bare.toString());
+  referenced.add(bare.with({ path: bare.path.replace(/\?.*$/, "") }).toString());
+}
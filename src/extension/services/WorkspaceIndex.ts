@@ -1,20 +1,108 @@
+import * as path from "node:path";
 import * as vscode from "vscode";
+import { extractHeadings, extractHtmlAnchors, extractLinkTargets, Heading, HtmlAnchor, LinkTarget, toLinkTargets } from "./HeadingService";
+import { IndexScope } from "./IndexScope";
+import { extractMarkdownLinks, findUndefinedReferences, MarkdownLink, resolveHrefToUri, UndefinedReference } from "./LinkService";
+import { getLinkPathStyle, getSlugStyle, LinkPathStyle } from "./Settings";
+import { SlugStyle } from "./SlugService";
+import { extractAliases, extractTags } from "./TagService";
+
+export type IndexedLink = MarkdownLink & {
+  targetUri: string;
+  fragment?: string;
+};
+
+export type Backlink = {
+  sourceUri: vscode.Uri;
+  link: IndexedLink;
+};
+
+/**
+ * Everything the index knows about one note.
+ * `mtime` is the on-disk modification time the entry was parsed from (0 = unsaved content, never reused).
+ */
+export type IndexedNote = {
+  mtime: number;
+  title: string;
+  frontmatter: Record<string, string>;
+  tags: string[];
+  /** Frontmatter `aliases`, for the quick switcher. */
+  aliases: string[];
+  headings: Heading[];
+  anchors: HtmlAnchor[];
+  /** Anchor style the heading slugs were generated with; entries with another style are re-parsed. */
+  slugStyle: SlugStyle;
+  /** Path style the link targets were resolved with (it decides what `/name/...` points to); likewise re-parsed. */
+  pathStyle: LinkPathStyle;
+  links: IndexedLink[];
+  undefinedReferences: UndefinedReference[];
+};
+
+type PersistedIndex = {
+  version: number;
+  notes: Record<string, IndexedNote>;
+};
+
+// Bump when the shape of IndexedNote (or what is extracted into it) changes.
+const CACHE_VERSION = 8;
+const CACHE_FILE = "workspace-index.json";
 
 export class WorkspaceIndex implements vscode.Disposable {
   private readonly disposables: vscode.Disposable[] = [];
-  private readonly mdFilesByFolder = new Map<string, Set<string>>();
+  private mdFilesByFolder = new Map<string, Set<string>>();
+  private readonly notes = new Map<string, IndexedNote>();
+  private readonly sourcesByTarget = new Map<string, Set<string>>();
+  private readonly updatedEmitter = new vscode.EventEmitter<readonly vscode.Uri[] | undefined>();
+  /** Fires with the notes that were added, changed or removed, or `undefined` after a scan (anything may have changed). */
+  readonly onDidUpdate = this.updatedEmitter.event;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private rescanTimer: NodeJS.Timeout | null = null;
+  private scope: IndexScope | null = null;
+  private watcher: { glob: string; disposables: vscode.Disposable[] } | null = null;
+  private pendingSync: Promise<void> = Promise.resolve();
 
-  constructor() {
-    const watcher = vscode.workspace.createFileSystemWatcher("**/*.md");
-    this.disposables.push(watcher);
-    watcher.onDidCreate((uri) => this.add(uri), null, this.disposables);
-    watcher.onDidDelete((uri) => this.remove(uri), null, this.disposables);
+  /** @param storageUri Where the index is persisted between sessions (`context.storageUri`); not persisted when undefined. */
+  constructor(private readonly storageUri: vscode.Uri | undefined) {
+    // Scope changes: re-scan so pickers never list files the watcher would ignore (and vice versa).
+    const gitignoreWatcher = vscode.workspace.createFileSystemWatcher("**/.gitignore");
+    this.disposables.push(gitignoreWatcher);
+    gitignoreWatcher.onDidCreate(() => this.scheduleRescan(), null, this.disposables);
+    gitignoreWatcher.onDidChange(() => this.scheduleRescan(), null, this.disposables);
+    gitignoreWatcher.onDidDelete(() => this.scheduleRescan(), null, this.disposables);
+    vscode.workspace.onDidChangeConfiguration(
+      (e) => {
+        if (
+          e.affectsConfiguration("quench.index") ||
+          e.affectsConfiguration("quench.links.slugStyle") ||
+          e.affectsConfiguration("quench.links.pathStyle") ||
+          e.affectsConfiguration("files.exclude") ||
+          e.affectsConfiguration("search.exclude")
+        ) {
+          this.scheduleRescan();
+        }
+      },
+      null,
+      this.disposables
+    );
+    vscode.workspace.onDidChangeWorkspaceFolders(() => this.scheduleRescan(), null, this.disposables);
   }
 
+  /** Loads the persisted index and re-parses only notes whose mtime changed since it was written. */
+  async initialize(): Promise<void> {
+    await this.track(async () => {
+      await this.loadCache();
+      await this.sync(false);
+    });
+  }
+
+  /** Re-parses every note, replacing everything cached (including the persisted cache). */
   async rebuild(): Promise<void> {
-    this.mdFilesByFolder.clear();
-    const files = await vscode.workspace.findFiles("**/*.md", "**/node_modules/**");
-    for (const uri of files) this.add(uri);
+    await this.track(() => this.sync(true));
+  }
+
+  /** Resolves once the scans and file events queued so far (initial load, rebuild, rescans) have been processed. */
+  whenIdle(): Promise<void> {
+    return this.pendingSync;
   }
 
   getMarkdownFiles(folder?: vscode.WorkspaceFolder): vscode.Uri[] {
@@ -29,6 +117,177 @@ export class WorkspaceIndex implements vscode.Disposable {
     return out;
   }
 
+  getNote(uri: vscode.Uri): IndexedNote | undefined {
+    return this.notes.get(uri.toString());
+  }
+
+  getLinks(source: vscode.Uri): IndexedLink[] {
+    return this.notes.get(source.toString())?.links ?? [];
+  }
+
+  /**
+   * Headings of a note: parsed from the open document when it has unsaved edits,
+   * otherwise served from the index, falling back to reading the file.
+   */
+  async readHeadings(uri: vscode.Uri): Promise<Heading[]> {
+    const open = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString());
+    const slugStyle = getSlugStyle(uri);
+    if (open?.isDirty) return extractHeadings(open.getText(), slugStyle);
+    const cached = this.notes.get(uri.toString());
+    if (cached?.slugStyle === slugStyle) return cached.headings;
+    return extractHeadings(await readMarkdownText(uri), slugStyle);
+  }
+
+  /** Every `#fragment` target of a note (headings and HTML anchors), read like `readHeadings`. */
+  async readLinkTargets(uri: vscode.Uri): Promise<LinkTarget[]> {
+    const open = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString());
+    const slugStyle = getSlugStyle(uri);
+    if (open?.isDirty) return extractLinkTargets(open.getText(), slugStyle);
+    const cached = this.notes.get(uri.toString());
+    if (cached?.slugStyle === slugStyle) return toLinkTargets(cached.headings, cached.anchors);
+    return extractLinkTargets(await readMarkdownText(uri), slugStyle);
+  }
+
+  /** Links from other notes that resolve to `target` (self-links are excluded). */
+  getBacklinks(target: vscode.Uri): Backlink[] {
+    const key = target.toString();
+    const sources = this.sourcesByTarget.get(key);
+    if (!sources) return [];
+    const out: Backlink[] = [];
+    for (const source of sources) {
+      if (source === key) continue;
+      const sourceUri = vscode.Uri.parse(source);
+      for (const link of this.notes.get(source)?.links ?? []) {
+        if (link.targetUri === key) out.push({ sourceUri, link });
+      }
+    }
+    return out;
+  }
+
+  /** Notes with at least one link whose resolved target satisfies `match`. */
+  getSourcesLinkingTo(match: (targetUri: vscode.Uri) => boolean): vscode.Uri[] {
+    const out = new Set<string>();
+    for (const [target, sources] of this.sourcesByTarget) {
+      if (!match(vscode.Uri.parse(target))) continue;
+      for (const s of sources) out.add(s);
+    }
+    return [...out].map((s) => vscode.Uri.parse(s));
+  }
+
+  has(uri: vscode.Uri): boolean {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) return false;
+    return this.mdFilesByFolder.get(folder.uri.toString())?.has(uri.toString()) ?? false;
+  }
+
+  /** The scope of the last scan, so other file lists (e.g. image completions) can honor the same excludes. */
+  getScope(): Promise<IndexScope> {
+    return this.scope ? Promise.resolve(this.scope) : IndexScope.load();
+  }
+
+  /**
+   * Re-scans the workspace. The file list is swapped in once it is complete, and notes are replaced one by one,
+   * so readers never see an empty index in between. `force` re-parses notes whose mtime did not change.
+   */
+  private async sync(force: boolean): Promise<void> {
+    const scope = await IndexScope.load();
+    const found = await vscode.workspace.findFiles(scope.markdownGlob, scope.searchExcludeGlob);
+    const files = found.filter((uri) => scope.includes(uri));
+    this.scope = scope;
+    this.watchMarkdownFiles(scope.markdownGlob);
+
+    const byFolder = new Map<string, Set<string>>();
+    for (const uri of files) {
+      const folder = vscode.workspace.getWorkspaceFolder(uri);
+      if (!folder) continue;
+      const set = byFolder.get(folder.uri.toString()) ?? new Set<string>();
+      set.add(uri.toString());
+      byFolder.set(folder.uri.toString(), set);
+    }
+    this.mdFilesByFolder = byFolder;
+    const present = new Set(files.map((u) => u.toString()));
+    for (const key of [...this.notes.keys()]) {
+      if (!present.has(key)) this.clearNote(key);
+    }
+    for (const uri of files) {
+      const cached = this.notes.get(uri.toString());
+      const upToDate =
+        !force &&
+        cached &&
+        cached.mtime > 0 &&
+        cached.slugStyle === getSlugStyle(uri) &&
+        cached.pathStyle === getLinkPathStyle(uri);
+      if (upToDate && cached.mtime === (await statMtime(uri))) continue;
+      await this.indexContent(uri);
+    }
+    this.scheduleSave();
+    this.updatedEmitter.fire(undefined);
+  }
+
+  /** Queues index work behind the scans and file events already queued; failures are logged, never rethrown. */
+  private track(work: () => Promise<void>): Promise<void> {
+    const pending = this.pendingSync.then(work).catch((err) => console.error("[quench] Index scan failed:", err));
+    this.pendingSync = pending;
+    return pending;
+  }
+
+  private scheduleRescan() {
+    if (this.rescanTimer) clearTimeout(this.rescanTimer);
+    this.rescanTimer = setTimeout(() => {
+      this.rescanTimer = null;
+      void this.track(() => this.sync(false));
+    }, 500);
+  }
+
+  /**
+   * (Re)creates the Markdown file watcher when the set of extensions changes; events go through the same scope as
+   * `sync`. Saved notes are re-indexed from its change events.
+   */
+  private watchMarkdownFiles(glob: string) {
+    if (this.watcher?.glob === glob) return;
+    this.watcher?.disposables.forEach((d) => d.dispose());
+    const disposables: vscode.Disposable[] = [];
+    const watcher = vscode.workspace.createFileSystemWatcher(glob);
+    disposables.push(watcher);
+    // Events are queued like scans, so a scan in progress cannot swap out a file added in the meantime.
+    watcher.onDidCreate(
+      (uri) =>
+        void this.track(async () => {
+          if (!this.scope?.includes(uri)) return;
+          this.add(uri);
+          await this.indexContent(uri);
+          this.updatedEmitter.fire([uri]);
+        }),
+      null,
+      disposables
+    );
+    watcher.onDidChange(
+      (uri) =>
+        void this.track(async () => {
+          if (!this.has(uri)) return;
+          // Saving fires one or more change events; only a new mtime means new content.
+          const cached = this.notes.get(uri.toString());
+          if (cached && cached.mtime > 0 && cached.mtime === (await statMtime(uri))) return;
+          await this.indexContent(uri);
+          this.updatedEmitter.fire([uri]);
+        }),
+      null,
+      disposables
+    );
+    watcher.onDidDelete(
+      (uri) =>
+        void this.track(async () => {
+          if (!this.has(uri)) return;
+          this.remove(uri);
+          this.scheduleSave();
+          this.updatedEmitter.fire([uri]);
+        }),
+      null,
+      disposables
+    );
+    this.watcher = { glob, disposables };
+  }
+
   private add(uri: vscode.Uri) {
     const folder = vscode.workspace.getWorkspaceFolder(uri);
     if (!folder) return;
@@ -39,6 +298,7 @@ export class WorkspaceIndex implements vscode.Disposable {
   }
 
   private remove(uri: vscode.Uri) {
+    this.clearNote(uri.toString());
     const folder = vscode.workspace.getWorkspaceFolder(uri);
     if (!folder) return;
     const key = folder.uri.toString();
@@ -48,9 +308,157 @@ export class WorkspaceIndex implements vscode.Disposable {
     if (set.size === 0) this.mdFilesByFolder.delete(key);
   }
 
+  private async indexContent(uri: vscode.Uri): Promise<void> {
+    try {
+      const open = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString());
+      const mtime = open?.isDirty ? 0 : await statMtime(uri);
+      const text = await readMarkdownText(uri);
+      this.setNote(uri.toString(), parseNote(uri, text, mtime));
+    } catch (err) {
+      console.error("[quench] Failed to index note:", uri.toString(), err);
+      this.clearNote(uri.toString());
+    }
+    this.scheduleSave();
+  }
+
+  private setNote(key: string, note: IndexedNote) {
+    this.clearNote(key);
+    for (const link of note.links) {
+      const sources = this.sourcesByTarget.get(link.targetUri) ?? new Set<string>();
+      sources.add(key);
+      this.sourcesByTarget.set(link.targetUri, sources);
+    }
+    this.notes.set(key, note);
+  }
+
+  private clearNote(key: string) {
+    const previous = this.notes.get(key);
+    if (!previous) return;
+    for (const link of previous.links) {
+      const sources = this.sourcesByTarget.get(link.targetUri);
+      if (!sources) continue;
+      sources.delete(key);
+      if (sources.size === 0) this.sourcesByTarget.delete(link.targetUri);
+    }
+    this.notes.delete(key);
+  }
+
+  private async loadCache(): Promise<void> {
+    if (!this.storageUri) return;
+    let persisted: PersistedIndex;
+    try {
+      const bytes = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.storageUri, CACHE_FILE));
+      persisted = JSON.parse(Buffer.from(bytes).toString("utf8")) as PersistedIndex;
+    } catch {
+      return; // first run, or unreadable cache: fall back to a full parse
+    }
+    if (persisted?.version !== CACHE_VERSION || typeof persisted.notes !== "object" || persisted.notes === null) return;
+    for (const [key, note] of Object.entries(persisted.notes)) {
+      if (!note || !Array.isArray(note.links) || !Array.isArray(note.headings) || !Array.isArray(note.undefinedReferences)) continue;
+      this.setNote(key, note);
+    }
+  }
+
+  private scheduleSave() {
+    if (!this.storageUri) return;
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.saveCache();
+    }, 2000);
+  }
+
+  private async saveCache(): Promise<void> {
+    if (!this.storageUri) return;
+    const persisted: PersistedIndex = { version: CACHE_VERSION, notes: {} };
+    for (const [key, note] of this.notes) {
+      if (note.mtime > 0) persisted.notes[key] = note;
+    }
+    try {
+      await vscode.workspace.fs.createDirectory(this.storageUri);
+      await vscode.workspace.fs.writeFile(
+        vscode.Uri.joinPath(this.storageUri, CACHE_FILE),
+        Buffer.from(JSON.stringify(persisted), "utf8")
+      );
+    } catch (err) {
+      console.error("[quench] Failed to persist workspace index:", err);
+    }
+  }
+
   dispose(): void {
+    if (this.rescanTimer) clearTimeout(this.rescanTimer);
+    this.rescanTimer = null;
+    this.watcher?.disposables.forEach((d) => d.dispose());
+    this.watcher = null;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      void this.saveCache();
+    }
     this.disposables.forEach((d) => d.dispose());
     this.disposables.length = 0;
+    this.updatedEmitter.dispose();
   }
 }
 
+export async function readMarkdownText(uri: vscode.Uri): Promise<string> {
+  // Prefer the in-memory document so unsaved edits of open notes are not lost.
+  const open = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString());
+  if (open) return open.getText();
+  const bytes = await vscode.workspace.fs.readFile(uri);
+  return Buffer.from(bytes).toString("utf8");
+}
+
+async function statMtime(uri: vscode.Uri): Promise<number> {
+  try {
+    return (await vscode.workspace.fs.stat(uri)).mtime;
+  } catch {
+    return 0;
+  }
+}
+
+function parseNote(uri: vscode.Uri, text: string, mtime: number): IndexedNote {
+  const links: IndexedLink[] = [];
+  for (const link of extractMarkdownLinks(text)) {
+    const resolved = resolveHrefToUri(uri, link.href);
+    if (resolved === "external") continue;
+    links.push({ ...link, targetUri: resolved.targetUri.toString(), fragment: resolved.fragment });
+  }
+  const frontmatter = parseFrontmatter(text);
+  const slugStyle = getSlugStyle(uri);
+  const headings = extractHeadings(text, slugStyle);
+  const title =
+    frontmatter.title ||
+    headings.find((h) => h.level === 1)?.text ||
+    path.posix.basename(uri.path, path.posix.extname(uri.path));
+  return {
+    mtime,
+    title,
+    frontmatter,
+    tags: extractTags(text),
+    aliases: extractAliases(text),
+    headings,
+    anchors: extractHtmlAnchors(text),
+    slugStyle,
+    pathStyle: getLinkPathStyle(uri),
+    links,
+    undefinedReferences: findUndefinedReferences(text)
+  };
+}
+
+/**
+ * Reads top-level `key: value` scalars from a leading YAML frontmatter block.
+ * Nested values and lists are skipped; this is for titles/aliases-style lookups, not full YAML.
+ */
+function parseFrontmatter(text: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  const m = /^---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)\s*(?:\r?\n|$)/.exec(text);
+  if (!m) return out;
+  for (const line of (m[1] ?? "").split(/\r?\n/)) {
+    const kv = /^([A-Za-z0-9_-]+)\s*:\s*(.*)$/.exec(line);
+    if (!kv) continue;
+    const value = (kv[2] ?? "").trim().replace(/^(["'])(.*)\1$/, "$2");
+    if (value.length > 0) out[kv[1] ?? ""] = value;
+  }
+  return out;
+}
@@ -0,0 +1,98 @@
+import { forEachLineOutsideFences, normalizeReferenceLabel } from "./referenceLinks";
+
+/**
+ * GFM footnotes, shared by the extension host and the webview.
+ * References: `[^label]`. Definitions: `[^label]: text`, continued by lines indented four spaces (or a tab).
+ * Labels match like link labels (case-insensitive, collapsed whitespace). Columns are 0-based within the line.
+ */
+
+export type FootnoteDefinition = {
+  label: string;
+  key: string;
+  line: number;
+  /** Last line of the definition, including indented continuation lines. */
+  endLine: number;
+  /** `[^label]` on the definition line. */
+  from: number;
+  to: number;
+  /** Definition text with continuation lines unindented, for previews. */
+  text: string;
+};
+
+export type FootnoteReference = {
+  label: string;
+  key: string;
+  /** `[^label]`, brackets included. */
+  from: number;
+  to: number;
+};
+
+const DEFINITION_RE = /^( {0,3})\[\^([^\]\s]+)\]:[ \t]?(.*)$/;
+const REFERENCE_RE = /\[\^([^\]\s]+)\]/g;
+
+/** The `[^label]` of a definition line (`from`/`to`, colon excluded) and the text after `:`, or `null`. */
+export function parseFootnoteDefinition(lineText: string): { label: string; from: number; to: number; content: string } | null {
+  const m = DEFINITION_RE.exec(lineText);
+  if (!m) return null;
+  const from = (m[1] ?? "").length;
+  const label = m[2] ?? "";
+  return { label, from, to: from + label.length + 3, content: m[3] ?? "" };
+}
+
+/** Definitions outside fenced code, keyed by normalized label; the first definition of a label wins. */
+export function collectFootnoteDefinitions(lines: readonly string[]): Map<string, FootnoteDefinition> {
+  const out = new Map<string, FootnoteDefinition>();
+  let current: FootnoteDefinition | null = null;
+  let pendingBlank = 0;
+  forEachLineOutsideFences(lines, (text, line) => {
+    const def = parseFootnoteDefinition(text);
+    if (def) {
+      const key = normalizeReferenceLabel(def.label);
+      current = { label: def.label, key, line, endLine: line, from: def.from, to: def.to, text: def.content.trim() };
+      pendingBlank = 0;
+      if (!out.has(key)) out.set(key, current);
+      return;
+    }
+    if (!current) return;
+    if (text.trim().length === 0) {
+      pendingBlank++;
+      return;
+    }
+    if (/^( {4}|\t)/.test(text)) {
+      current.text += `${"\n".repeat(pendingBlank)}\n${text.replace(/^( {4}|\t)/, "")}`;
+      current.endLine = line;
+      pendingBlank = 0;
+      return;
+    }
+    current = null;
+  });
+  return out;
+}
+
+/** `[^label]` references on one line; the label of a definition line and inline code are skipped. */
+export function findFootnoteReferences(lineText: string): FootnoteReference[] {
+  const def = parseFootnoteDefinition(lineText);
+  const prose = lineText.replace(/`+[^`]*`+/g, (code) => " ".repeat(code.length));
+  const out: FootnoteReference[] = [];
+  for (const m of prose.matchAll(REFERENCE_RE)) {
+    const from = m.index ?? -1;
+    if (from < 0 || (def && from === def.from)) continue;
+    if (from > 0 && prose[from - 1] === "\\") continue;
+    const label = m[1] ?? "";
+    out.push({ label, key: normalizeReferenceLabel(label), from, to: from + m[0].length });
+  }
+  return out;
+}
+
+/** One more than the largest numeric label in use (references or definitions). */
+export function nextFootnoteLabel(lines: readonly string[]): string {
+  let max = 0;
+  forEachLineOutsideFences(lines, (text) => {
+    const def = parseFootnoteDefinition(text);
+    const labels = [...findFootnoteReferences(text).map((r) => r.label), ...(def ? [def.label] : [])];
+    for (const label of labels) {
+      if (/^\d+$/.test(label)) max = Math.max(max, Number.parseInt(label, 10));
+    }
+  });
+  return String(max + 1);
+}
@@ -0,0 +1,41 @@
+/**
+ * Explicit link targets, shared by the extension host and the webview:
+ * heading IDs written as `## Setup {#setup}` (Pandoc / kramdown / MkDocs attr_list) and HTML anchors
+ * such as `<a id="setup"></a>` or `<a name="setup">`. Columns are 0-based within the line.
+ */
+
+export type IdMatch = {
+  id: string;
+  from: number;
+  to: number;
+};
+
+// ` {#id}` or ` {#id .class key=value}` at the end of the heading text.
+const EXPLICIT_ID_RE = /[ \t]+\{#([^\s{}]+)(?:[ \t]+[^{}]*)?\}[ \t]*$/;
+
+const HTML_ID_RE = /<([A-Za-z][\w-]*)\b[^>]*?\s(id|name)\s*=\s*(?:"([^"]*)"|'([^']*)')[^>]*>/g;
+
+/** The `{#id}` suffix of a heading line; `from` includes the whitespace before `{`. */
+export function findExplicitHeadingId(text: string): IdMatch | null {
+  const m = EXPLICIT_ID_RE.exec(text);
+  if (!m || m.index === undefined) return null;
+  return { id: m[1] ?? "", from: m.index, to: m.index + m[0].length };
+}
+
+/**
+ * Opening tags that define a fragment target: any element with `id`, or `<a name>`. Inline code spans are skipped.
+ * `from`/`to` cover the opening tag.
+ */
+export function findHtmlAnchorIds(lineText: string): IdMatch[] {
+  const prose = lineText.replace(/`+[^`]*`+/g, (code) => " ".repeat(code.length));
+  const out: IdMatch[] = [];
+  for (const m of prose.matchAll(HTML_ID_RE)) {
+    const start = m.index ?? -1;
+    if (start < 0) continue;
+    if (m[2]?.toLowerCase() === "name" && m[1]?.toLowerCase() !== "a") continue;
+    const id = m[3] ?? m[4] ?? "";
+    if (id.length === 0) continue;
+    out.push({ id, from: start, to: start + m[0].length });
+  }
+  return out;
+}
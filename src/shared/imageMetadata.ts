@@ -0,0 +1,126 @@
+/**
+ * Lossless removal of image metadata (EXIF, XMP, text chunks, ...), shared by the webview's image processing and
+ * the extension host: metadata segments/chunks are dropped from JPEG, PNG and WebP without re-encoding the image.
+ */
+
+/** `bytes` without metadata, for JPEG, PNG and WebP; other formats and malformed files are returned as they are. */
+export function stripImageMetadata(bytes: Uint8Array, mime: string): Uint8Array {
+  try {
+    if (mime === "image/jpeg") return stripJpeg(bytes);
+    if (mime === "image/png") return stripPng(bytes);
+    if (mime === "image/webp") return stripWebp(bytes);
+  } catch {
+    // Malformed file: keep it as it is rather than writing something broken.
+  }
+  return bytes;
+}
+
+/** Drops APP1–APP15 (Exif, XMP, IPTC, ...) except APP2 (ICC profile) and COM segments before the image data. */
+function stripJpeg(bytes: Uint8Array): Uint8Array {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return bytes;
+  const keep: Uint8Array[] = [bytes.subarray(0, 2)];
+  let pos = 2;
+  while (pos + 4 <= bytes.length && bytes[pos] === 0xff) {
+    const marker = bytes[pos + 1] ?? 0;
+    if (marker === 0xda) break; // start of scan: the rest is image data
+    const length = ((bytes[pos + 2] ?? 0) << 8) | (bytes[pos + 3] ?? 0);
+    const end = pos + 2 + length;
+    if (length < 2 || end > bytes.length) return bytes;
+    const isMetadata = (marker >= 0xe1 && marker <= 0xef && marker !== 0xe2) || marker === 0xfe;
+    if (!isMetadata) keep.push(bytes.subarray(pos, end));
+    pos = end;
+  }
+  keep.push(bytes.subarray(pos));
+  return concat(keep);
+}
+
+/** EXIF orientation (1 = upright) of a JPEG, or 0 when there is none or the EXIF data is malformed. */
+export function jpegOrientation(bytes: Uint8Array): number {
+  try {
+    return readJpegOrientation(bytes);
+  } catch {
+    return 0;
+  }
+}
+
+function readJpegOrientation(bytes: Uint8Array): number {
+  let pos = 2;
+  while (pos + 4 <= bytes.length && bytes[pos] === 0xff) {
+    const marker = bytes[pos + 1] ?? 0;
+    const length = ((bytes[pos + 2] ?? 0) << 8) | (bytes[pos + 3] ?? 0);
+    if (marker === 0xda || length < 2) return 0;
+    const exif = pos + 4;
+    if (marker === 0xe1 && ascii(bytes, exif) === "Exif") {
+      const tiff = exif + 6;
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      const count = view.getUint16(ifd, little);
+      for (let i = 0; i < count; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return 0;
+    }
+    pos += 2 + length;
+  }
+  return 0;
+}
+
+/** Drops text, time and EXIF chunks; keeps everything needed to render (including color profiles). */
+function stripPng(bytes: Uint8Array): Uint8Array {
+  const drop = new Set(["tEXt", "zTXt", "iTXt", "eXIf", "tIME"]);
+  const keep: Uint8Array[] = [bytes.subarray(0, 8)];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = 8;
+  while (pos + 12 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = ascii(bytes, pos + 4);
+    const end = pos + 12 + length;
+    if (end > bytes.length) return bytes;
+    if (!drop.has(type)) keep.push(bytes.subarray(pos, end));
+    pos = end;
+    if (type === "IEND") break;
+  }
+  return concat(keep);
+}
+
+/** Drops the EXIF and XMP chunks of an extended WebP and clears their flags. */
+function stripWebp(bytes: Uint8Array): Uint8Array {
+  if (ascii(bytes, 0) !== "RIFF" || ascii(bytes, 8) !== "WEBP") return bytes;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const keep: Uint8Array[] = [];
+  let pos = 12;
+  while (pos + 8 <= bytes.length) {
+    const type = ascii(bytes, pos);
+    const size = view.getUint32(pos + 4, true);
+    const end = pos + 8 + size + (size % 2);
+    if (end > bytes.length + 1) return bytes;
+    if (type !== "EXIF" && type !== "XMP ") {
+      const chunk = bytes.slice(pos, Math.min(end, bytes.length));
+      if (type === "VP8X" && chunk.length > 8) chunk[8] = (chunk[8] ?? 0) & ~0x0c;
+      keep.push(chunk);
+    }
+    pos = end;
+  }
+  const body = concat(keep);
+  const out = new Uint8Array(12 + body.length);
+  out.set(bytes.subarray(0, 12));
+  new DataView(out.buffer).setUint32(4, 4 + body.length, true);
+  out.set(body, 12);
+  return out;
+}
+
+function ascii(bytes: Uint8Array, at: number): string {
+  return String.fromCharCode(...bytes.subarray(at, at + 4));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
@@ -0,0 +1,124 @@
+/**
+ * Note graph model and the messages of the "Show Note Graph" panel.
+ * Nodes are keyed by note URI string; edges are undirected for local-graph traversal but keep their link direction.
+ */
+
+export type NoteGraphNode = {
+  id: string;
+  title: string;
+  /** Workspace-relative path (prefixed with the folder name in multi-root workspaces). */
+  path: string;
+  tags: string[];
+  /** No links to or from other notes. */
+  orphan: boolean;
+};
+
+export type NoteGraphEdge = {
+  source: string;
+  target: string;
+};
+
+export type NoteGraph = {
+  nodes: NoteGraphNode[];
+  edges: NoteGraphEdge[];
+};
+
+export type NoteGraphFilter = {
+  /** Only notes whose path is inside this folder ("" = everywhere). */
+  folder: string;
+  /** Only notes with this tag, case-insensitive ("" = any). */
+  tag: string;
+  /** Hops around `centerId` for a local graph; 0 shows the whole graph. */
+  depth: number;
+  centerId: string | null;
+};
+
+/**
+ * Applies a filter. The local neighborhood is walked on the full graph first, so a filtered-out note does not cut
+ * the walk short; the center note is always kept.
+ */
+export function filterNoteGraph(graph: NoteGraph, filter: NoteGraphFilter): NoteGraph {
+  let ids = new Set(graph.nodes.map((n) => n.id));
+
+  if (filter.depth > 0 && filter.centerId && ids.has(filter.centerId)) {
+    const neighbors = new Map<string, string[]>();
+    const link = (a: string, b: string) => neighbors.set(a, [...(neighbors.get(a) ?? []), b]);
+    for (const e of graph.edges) {
+      link(e.source, e.target);
+      link(e.target, e.source);
+    }
+    const reached = new Set([filter.centerId]);
+    let frontier = [filter.centerId];
+    for (let hop = 0; hop < filter.depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const n of neighbors.get(id) ?? []) {
+          if (reached.has(n)) continue;
+          reached.add(n);
+          next.push(n);
+        }
+      }
+      frontier = next;
+    }
+    ids = reached;
+  }
+
+  const folderPrefix = filter.folder.length > 0 ? `${filter.folder.replace(/\/+$/, "")}/` : "";
+  const tag = filter.tag.toLowerCase();
+  const nodes = graph.nodes.filter((n) => {
+    if (!ids.has(n.id)) return false;
+    if (n.id === filter.centerId) return true;
+    if (folderPrefix && !n.path.startsWith(folderPrefix)) return false;
+    if (tag && !n.tags.some((t) => t.toLowerCase() === tag)) return false;
+    return true;
+  });
+  const kept = new Set(nodes.map((n) => n.id));
+  const edges = graph.edges.filter((e) => kept.has(e.source) && kept.has(e.target));
+  return { nodes, edges };
+}
+
+export type ExtensionToGraphMessage =
+  | {
+      type: "GRAPH_DATA";
+      graph: NoteGraph;
+      activeId: string | null;
+    }
+  | {
+      type: "GRAPH_ACTIVE_NOTE";
+      activeId: string | null;
+    };
+
+export type GraphToExtensionMessage =
+  | {
+      type: "GRAPH_READY";
+    }
+  | {
+      type: "OPEN_NOTE";
+      id: string;
+      toSide?: boolean;
+    };
+
+export function assertGraphToExtensionMessage(value: unknown): GraphToExtensionMessage {
+  if (typeof value !== "object" || value === null) throw new Error("Invalid message: not an object with type");
+  const msg = value as Record<string, unknown>;
+  if (msg.type === "GRAPH_READY") return { type: "GRAPH_READY" };
+  if (msg.type === "OPEN_NOTE") {
+    if (typeof msg.id !== "string") throw new Error("Invalid OPEN_NOTE.id");
+    if (msg.toSide !== undefined && typeof msg.toSide !== "boolean") throw new Error("Invalid OPEN_NOTE.toSide");
+    return { type: "OPEN_NOTE", id: msg.id, toSide: msg.toSide };
+  }
+  throw new Error(`Unknown message type: ${String(msg.type)}`);
+}
+
+export function assertExtensionToGraphMessage(value: unknown): ExtensionToGraphMessage {
+  if (typeof value !== "object" || value === null) throw new Error("Invalid message: not an object with type");
+  const msg = value as Record<string, unknown>;
+  if (msg.activeId !== null && typeof msg.activeId !== "string") throw new Error(`Invalid ${String(msg.type)}.activeId`);
+  if (msg.type === "GRAPH_DATA") {
+    const graph = msg.graph as Partial<NoteGraph> | undefined;
+    if (!graph || !Array.isArray(graph.nodes) || !Array.isArray(graph.edges)) throw new Error("Invalid GRAPH_DATA.graph");
+    return value as ExtensionToGraphMessage;
+  }
+  if (msg.type === "GRAPH_ACTIVE_NOTE") return value as ExtensionToGraphMessage;
+  throw new Error(`Unknown message type: ${String(msg.type)}`);
+}
@@ -0,0 +1,47 @@
+/**
+ * Recognizes pasted text that should become a link: a URL pasted over a selection, or a reference to a file
+ * as produced by VS Code's Copy Path / Copy Relative Path, a `file://` URI, or `path:line[:column]`.
+ * Shared by the webview (to decide whether to take over the paste) and the extension (to resolve the file).
+ */
+
+export type PastedFileReference = {
+  /** `file://` URI or a path (absolute, or relative to a workspace folder); percent-encoding kept as pasted. */
+  target: string;
+  isUri: boolean;
+  /** 1-based, as written in `path:line` / `#L12`. */
+  line?: number;
+  column?: number;
+};
+
+const URL_RE = /^(?:https?:\/\/|mailto:)[^\s<>]+$/i;
+const LINE_SUFFIX_RE = /^(.+?)(?::(\d+)(?::(\d+))?|#L(\d+)(?:C(\d+))?)$/;
+const OTHER_SCHEME_RE = /^[A-Za-z][A-Za-z0-9+.-]+:/;
+
+export function isPastedUrl(text: string): boolean {
+  return URL_RE.test(text.trim());
+}
+
+/** `null` unless `text` is a single line shaped like a file reference; whether the file exists is up to the caller. */
+export function parseFileReference(text: string): PastedFileReference | null {
+  let value = text.trim().replace(/^(["'])(.*)\1$/, "$2");
+  if (value.length === 0 || value.length > 1000 || /[\r\n]/.test(value)) return null;
+  if (/^[[!<#>*`|-]/.test(value)) return null;
+
+  let line: number | undefined;
+  let column: number | undefined;
+  const suffix = LINE_SUFFIX_RE.exec(value);
+  if (suffix) {
+    value = suffix[1] ?? value;
+    line = Number.parseInt(suffix[2] ?? suffix[4] ?? "", 10);
+    const col = suffix[3] ?? suffix[5];
+    column = col !== undefined ? Number.parseInt(col, 10) : undefined;
+  }
+
+  if (/^file:\/\//i.test(value)) return { target: value, isUri: true, line, column };
+  const absolute = value.startsWith("/") || /^[A-Za-z]:[\\/]/.test(value) || value.startsWith("\\\\");
+  if (!absolute && OTHER_SCHEME_RE.test(value)) return null;
+  // Relative paths need a separator or an extension, so ordinary words are not sent off for a lookup.
+  if (!absolute && !/[\\/]/.test(value) && !/\.[A-Za-z0-9]{1,10}$/.test(value)) return null;
+  if (!absolute && /\s{2,}|^\S+\s+\S+\s+\S+\s/.test(value)) return null;
+  return { target: value, isUri: false, line, column };
+}
@@ -13,12 +13,29 @@ export type QuenchSettings = {
   keybindings?: Record<string, string[]>;
   syntaxVisibility: "smart" | "always" | "minimal";
   previewOnHover: boolean;
-  slugStyle: "github";
+  linkDiagnostics: boolean;
+  updateLinksOnRename: "always" | "ask" | "never";
+  slugStyle: "github" | "gitlab" | "azureDevOps" | "mkdocs" | "pandoc";
+  openMarkdownLinksIn: "quench" | "textEditor";
   attachments: {
     location: "workspaceRoot" | "specifiedFolder" | "sameFolder" | "subfolder";
     folderPath: string;
     subfolderName: string;
-    naming: "timestamp" | "noteNameTimestamp";
+    naming: "timestamp" | "noteNameTimestamp" | "template";
+    nameTemplate: string;
+    deduplicate: "off" | "attachmentFolder" | "workspace";
+    /** Largest file saved as an attachment; 0 = no limit. */
+    maxFileSizeMB: number;
+    /** Applied in the webview to pasted/dropped images before they are saved. */
+    images: {
+      format: "keep" | "webp" | "jpeg" | "png";
+      /** 1-100, for WebP and JPEG. */
+      quality: number;
+      /** 0 = no limit. */
+      maxWidth: number;
+      maxHeight: number;
+      stripMetadata: boolean;
+    };
   };
   security: {
     allowExternalImages: boolean;
@@ -35,6 +52,25 @@ export type TextChange = {
   text: string;
 };
 
+/**
+ * A broken link in the document, as document offsets (UTF-16, same as CodeMirror positions).
+ */
+export type LinkDiagnostic = {
+  from: number;
+  to: number;
+  message: string;
+};
+
+/**
+ * A link autocompletion candidate. `label` is the text inserted into the href
+ * (a relative path, or a heading slug after `#`).
+ */
+export type LinkCompletionItem = {
+  label: string;
+  detail?: string;
+  kind: "file" | "image" | "heading";
+};
+
 export type ExtensionToWebviewMessage =
   | {
       type: "INIT";
@@ -88,6 +124,8 @@ export type ExtensionToWebviewMessage =
       requestId: string;
       title: string;
       text: string;
+      /** Sanitized HTML rendered by the extension; preferred over `text` when present. */
+      html?: string;
     }
   | {
       type: "RESOURCE_URI_RESULT";
@@ -102,6 +140,30 @@ export type ExtensionToWebviewMessage =
       ok: boolean;
       error?: string;
     }
+  | {
+      type: "LINK_DIAGNOSTICS";
+      version: number;
+      diagnostics: LinkDiagnostic[];
+    }
+  | {
+      type: "LINK_COMPLETIONS_RESULT";
+      requestId: string;
+      items: LinkCompletionItem[];
+    }
+  | {
+      /** Scroll to and briefly highlight a 0-based line (e.g. the heading a link points at). */
+      type: "REVEAL";
+      line: number;
+      /** 0-based column for the cursor; the line start when absent. */
+      column?: number;
+    }
+  | {
+      /** A file picked by Insert Image / Attachment from File, to be saved like a pasted one (see CREATE_ATTACHMENT). */
+      type: "ATTACH_FILE";
+      bytes: Uint8Array;
+      filename: string;
+      mime: string;
+    }
   | {
       type: "ERROR";
       message: string;
@@ -130,6 +192,7 @@ export type WebviewToExtensionMessage =
       type: "OPEN_LINK";
       href: string;
       fromUri: string;
+      toSide?: boolean;
     }
   | {
       type: "REQUEST_PREVIEW";
@@ -154,7 +217,8 @@ export type WebviewToExtensionMessage =
       requestId: string;
       href: string;
       fromUri: string;
-      kind: "image";
+      /** `media`: the `src` of an `<audio>` / `<video>` embed. */
+      kind: "image" | "media";
     }
   | {
       type: "CREATE_ATTACHMENT";
@@ -166,16 +230,47 @@ export type WebviewToExtensionMessage =
       bytes: Uint8Array;
       filenameHint?: string;
       mime?: string;
-      kind: "image";
+      /** `image` is embedded with `![](...)`; `file` (PDF, audio, archives, ...) is linked. */
+      kind: "image" | "file";
     }
   | {
-      type: "INSERT_IMAGE_REFERENCE";
+      type: "RENAME_HEADING";
+      baseVersion: number;
+      line: number;
+    }
+  | {
+      type: "REQUEST_LINK_COMPLETIONS";
+      requestId: string;
+      fromUri: string;
+      /** "path": complete the path part of an href. "heading": complete the slug after `#`. */
+      kind: "path" | "heading";
+      pathPart: string;
+      imagesOnly: boolean;
+    }
+  | {
+      /** Files dropped from the Explorer (or the OS): inserted as relative links, images as embeds. */
+      type: "INSERT_FILE_LINKS";
       requestId: string;
       baseVersion: number;
       fromUri: string;
       insertFrom: number;
       insertTo: number;
-      targetUri: string;
+      targetUris: string[];
+      /** Copy files from outside the workspace folder into the attachment folder (Shift held while dropping). */
+      copyExternal: boolean;
+    }
+  | {
+      /**
+       * Pasted text that looks like a file reference (see `parseFileReference`). The extension inserts a relative
+       * link when the file exists in the workspace, otherwise the text as pasted.
+       */
+      type: "PASTE_FILE_LINK";
+      baseVersion: number;
+      fromUri: string;
+      insertFrom: number;
+      insertTo: number;
+      text: string;
+      selectedText: string;
     };
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -192,6 +287,23 @@ function assertBoolean(value: unknown, label: string): asserts value is boolean
   if (typeof value !== "boolean") throw new Error(`Invalid ${label}`);
 }
 
+function isLinkDiagnosticArray(value: unknown): value is LinkDiagnostic[] {
+  if (!Array.isArray(value)) return false;
+  return value.every((d) => {
+    if (!isRecord(d)) return false;
+    return typeof d.from === "number" && typeof d.to === "number" && typeof d.message === "string";
+  });
+}
+
+function isLinkCompletionItemArray(value: unknown): value is LinkCompletionItem[] {
+  if (!Array.isArray(value)) return false;
+  return value.every((i) => {
+    if (!isRecord(i)) return false;
+    if (i.detail !== undefined && typeof i.detail !== "string") return false;
+    return typeof i.label === "string" && (i.kind === "file" || i.kind === "image" || i.kind === "heading");
+  });
+}
+
 function isTextChangeArray(value: unknown): value is TextChange[] {
   if (!Array.isArray(value)) return false;
   return value.every((c) => {
@@ -229,7 +341,9 @@ export function assertWebviewToExtensionMessage(value: unknown): WebviewToExtens
   if (value.type === "OPEN_LINK") {
     assertString(value.href, "OPEN_LINK.href");
     assertString(value.fromUri, "OPEN_LINK.fromUri");
-    return { type: "OPEN_LINK", href: value.href, fromUri: value.fromUri };
+    const toSide = value.toSide;
+    if (toSide !== undefined) assertBoolean(toSide, "OPEN_LINK.toSide");
+    return { type: "OPEN_LINK", href: value.href, fromUri: value.fromUri, toSide };
   }
 
   if (value.type === "REQUEST_PREVIEW") {
@@ -265,8 +379,8 @@ export function assertWebviewToExtensionMessage(value: unknown): WebviewToExtens
     assertString(value.href, "REQUEST_RESOURCE_URI.href");
     assertString(value.fromUri, "REQUEST_RESOURCE_URI.fromUri");
     assertString(value.kind, "REQUEST_RESOURCE_URI.kind");
-    if (value.kind !== "image") throw new Error("Invalid REQUEST_RESOURCE_URI.kind");
-    return { type: "REQUEST_RESOURCE_URI", requestId: value.requestId, href: value.href, fromUri: value.fromUri, kind: "image" };
+    if (value.kind !== "image" && value.kind !== "media") throw new Error("Invalid REQUEST_RESOURCE_URI.kind");
+    return { type: "REQUEST_RESOURCE_URI", requestId: value.requestId, href: value.href, fromUri: value.fromUri, kind: value.kind };
   }
 
   if (value.type === "CREATE_ATTACHMENT") {
@@ -276,7 +390,7 @@ export function assertWebviewToExtensionMessage(value: unknown): WebviewToExtens
     assertNumber(value.insertFrom, "CREATE_ATTACHMENT.insertFrom");
     assertNumber(value.insertTo, "CREATE_ATTACHMENT.insertTo");
     assertString(value.kind, "CREATE_ATTACHMENT.kind");
-    if (value.kind !== "image") throw new Error("Invalid CREATE_ATTACHMENT.kind");
+    if (value.kind !== "image" && value.kind !== "file") throw new Error("Invalid CREATE_ATTACHMENT.kind");
     const filenameHint = value.filenameHint;
     if (filenameHint !== undefined) assertString(filenameHint, "CREATE_ATTACHMENT.filenameHint");
     const mime = value.mime;
@@ -293,25 +407,69 @@ export function assertWebviewToExtensionMessage(value: unknown): WebviewToExtens
       bytes,
       filenameHint,
       mime,
-      kind: "image"
+      kind: value.kind
+    };
+  }
+
+  if (value.type === "RENAME_HEADING") {
+    assertNumber(value.baseVersion, "RENAME_HEADING.baseVersion");
+    assertNumber(value.line, "RENAME_HEADING.line");
+    return { type: "RENAME_HEADING", baseVersion: value.baseVersion, line: value.line };
+  }
+
+  if (value.type === "REQUEST_LINK_COMPLETIONS") {
+    assertString(value.requestId, "REQUEST_LINK_COMPLETIONS.requestId");
+    assertString(value.fromUri, "REQUEST_LINK_COMPLETIONS.fromUri");
+    if (value.kind !== "path" && value.kind !== "heading") throw new Error("Invalid REQUEST_LINK_COMPLETIONS.kind");
+    assertString(value.pathPart, "REQUEST_LINK_COMPLETIONS.pathPart");
+    assertBoolean(value.imagesOnly, "REQUEST_LINK_COMPLETIONS.imagesOnly");
+    return {
+      type: "REQUEST_LINK_COMPLETIONS",
+      requestId: value.requestId,
+      fromUri: value.fromUri,
+      kind: value.kind,
+      pathPart: value.pathPart,
+      imagesOnly: value.imagesOnly
     };
   }
 
-  if (value.type === "INSERT_IMAGE_REFERENCE") {
-    assertString(value.requestId, "INSERT_IMAGE_REFERENCE.requestId");
-    assertNumber(value.baseVersion, "INSERT_IMAGE_REFERENCE.baseVersion");
-    assertString(value.fromUri, "INSERT_IMAGE_REFERENCE.fromUri");
-    assertNumber(value.insertFrom, "INSERT_IMAGE_REFERENCE.insertFrom");
-    assertNumber(value.insertTo, "INSERT_IMAGE_REFERENCE.insertTo");
-    assertString(value.targetUri, "INSERT_IMAGE_REFERENCE.targetUri");
+  if (value.type === "INSERT_FILE_LINKS") {
+    assertString(value.requestId, "INSERT_FILE_LINKS.requestId");
+    assertNumber(value.baseVersion, "INSERT_FILE_LINKS.baseVersion");
+    assertString(value.fromUri, "INSERT_FILE_LINKS.fromUri");
+    assertNumber(value.insertFrom, "INSERT_FILE_LINKS.insertFrom");
+    assertNumber(value.insertTo, "INSERT_FILE_LINKS.insertTo");
+    assertBoolean(value.copyExternal, "INSERT_FILE_LINKS.copyExternal");
+    const targetUris = value.targetUris;
+    if (!Array.isArray(targetUris) || targetUris.length === 0 || !targetUris.every((u) => typeof u === "string")) {
+      throw new Error("Invalid INSERT_FILE_LINKS.targetUris");
+    }
     return {
-      type: "INSERT_IMAGE_REFERENCE",
+      type: "INSERT_FILE_LINKS",
       requestId: value.requestId,
       baseVersion: value.baseVersion,
       fromUri: value.fromUri,
       insertFrom: value.insertFrom,
       insertTo: value.insertTo,
-      targetUri: value.targetUri
+      targetUris,
+      copyExternal: value.copyExternal
+    };
+  }
+  if (value.type === "PASTE_FILE_LINK") {
+    assertNumber(value.baseVersion, "PASTE_FILE_LINK.baseVersion");
+    assertString(value.fromUri, "PASTE_FILE_LINK.fromUri");
+    assertNumber(value.insertFrom, "PASTE_FILE_LINK.insertFrom");
+    assertNumber(value.insertTo, "PASTE_FILE_LINK.insertTo");
+    assertString(value.text, "PASTE_FILE_LINK.text");
+    assertString(value.selectedText, "PASTE_FILE_LINK.selectedText");
+    return {
+      type: "PASTE_FILE_LINK",
+      baseVersion: value.baseVersion,
+      fromUri: value.fromUri,
+      insertFrom: value.insertFrom,
+      insertTo: value.insertTo,
+      text: value.text,
+      selectedText: value.selectedText
     };
   }
 
@@ -372,6 +530,8 @@ export function assertExtensionToWebviewMessage(value: unknown): ExtensionToWebv
       assertString(value.requestId, "PREVIEW_RESULT.requestId");
       assertString(value.title, "PREVIEW_RESULT.title");
       assertString(value.text, "PREVIEW_RESULT.text");
+      const html = value.html;
+      if (html !== undefined) assertString(html, "PREVIEW_RESULT.html");
       return value as ExtensionToWebviewMessage;
     }
     case "RESOURCE_URI_RESULT": {
@@ -390,6 +550,21 @@ export function assertExtensionToWebviewMessage(value: unknown): ExtensionToWebv
       if (error !== undefined) assertString(error, "CREATE_ATTACHMENT_RESULT.error");
       return value as ExtensionToWebviewMessage;
     }
+    case "LINK_DIAGNOSTICS": {
+      assertNumber(value.version, "LINK_DIAGNOSTICS.version");
+      if (!isLinkDiagnosticArray(value.diagnostics)) throw new Error("Invalid LINK_DIAGNOSTICS.diagnostics");
+      return value as ExtensionToWebviewMessage;
+    }
+    case "LINK_COMPLETIONS_RESULT": {
+      assertString(value.requestId, "LINK_COMPLETIONS_RESULT.requestId");
+      if (!isLinkCompletionItemArray(value.items)) throw new Error("Invalid LINK_COMPLETIONS_RESULT.items");
+      return value as ExtensionToWebviewMessage;
+    }
+    case "REVEAL": {
+      assertNumber(value.line, "REVEAL.line");
+      if (value.column !== undefined) assertNumber(value.column, "REVEAL.column");
+      return value as ExtensionToWebviewMessage;
+    }
     case "ERROR": {
       assertString(value.message, "ERROR.message");
       const detail = value.detail;
@@ -0,0 +1,207 @@
+/**
+ * Reference-style links, shared by the extension host and the webview.
+ * Usages: `[text][ref]` (full), `[ref][]` (collapsed), `[ref]` (shortcut).
+ * Definitions: `[ref]: url "title"`. Labels match case-insensitively with collapsed whitespace.
+ */
+
+export type LinkDefinition = {
+  label: string;
+  href: string;
+  title?: string;
+  line: number;
+  /** 0-based columns of the URL within the definition line (inside `<...>` when angle-bracketed). */
+  hrefFrom: number;
+  hrefTo: number;
+};
+
+export type ReferenceLinkMatch = {
+  kind: "full" | "collapsed" | "shortcut";
+  image: boolean;
+  text: string;
+  /** Normalized label used for definition lookup. */
+  key: string;
+  /** 0-based columns within the line; `from` includes a leading `!`. */
+  from: number;
+  to: number;
+  textFrom: number;
+  textTo: number;
+};
+
+/** An inline `[text](href "title")` link or `![alt](src)` image. Columns are 0-based within the line. */
+export type InlineLinkMatch = {
+  image: boolean;
+  text: string;
+  href: string;
+  title?: string;
+  /** The whole link; `from` includes a leading `!`. */
+  from: number;
+  to: number;
+  /** The destination (inside `<...>` when angle-bracketed). */
+  hrefFrom: number;
+  hrefTo: number;
+};
+
+const DEFINITION_RE = /^ {0,3}\[([^\]]+)\]:[ \t]*(<[^>]*>|\S+)(?:[ \t]+("[^"]*"|'[^']*'|\([^)]*\)))?[ \t]*$/;
+
+export function normalizeReferenceLabel(label: string): string {
+  return label.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/** Parses a `[label]: url "title"` line. Footnote definitions (`[^1]: ...`) are not link definitions. */
+export function parseLinkDefinition(lineText: string, line: number): LinkDefinition | null {
+  const m = DEFINITION_RE.exec(lineText);
+  if (!m) return null;
+  const label = m[1] ?? "";
+  if (label.startsWith("^") || normalizeReferenceLabel(label).length === 0) return null;
+  const rawHref = m[2] ?? "";
+  const angled = rawHref.startsWith("<") && rawHref.endsWith(">");
+  const href = angled ? rawHref.slice(1, -1) : rawHref;
+  const hrefFrom = lineText.indexOf(rawHref, lineText.indexOf("]:") + 2) + (angled ? 1 : 0);
+  const title = m[3] ? m[3].slice(1, -1) : undefined;
+  return { label, href, title, line, hrefFrom, hrefTo: hrefFrom + href.length };
+}
+
+/**
+ * Collects link definitions outside fenced code blocks, keyed by normalized label.
+ * The first definition of a label wins (CommonMark).
+ */
+export function collectLinkDefinitions(lines: readonly string[]): Map<string, LinkDefinition> {
+  const out = new Map<string, LinkDefinition>();
+  forEachLineOutsideFences(lines, (text, line) => {
+    const def = parseLinkDefinition(text, line);
+    if (!def) return;
+    const key = normalizeReferenceLabel(def.label);
+    if (!out.has(key)) out.set(key, def);
+  });
+  return out;
+}
+
+/**
+ * Finds reference-style usages on one line, outside inline code spans. Shortcut links (`[ref]`) only count when
+ * `isDefined(key)`, so task-list markers and bracketed prose are not treated as links.
+ */
+export function findReferenceLinks(lineText: string, isDefined: (key: string) => boolean): ReferenceLinkMatch[] {
+  if (parseLinkDefinition(lineText, 0)) return [];
+  const prose = maskCodeSpans(lineText);
+  const out: ReferenceLinkMatch[] = [];
+  for (const m of prose.matchAll(/(!?)\[([^[\]]*)\](?:\[([^[\]]*)\])?/g)) {
+    const start = m.index ?? -1;
+    if (start < 0) continue;
+    if (start > 0 && prose[start - 1] === "\\") continue;
+    const end = start + m[0].length;
+    const next = prose[end];
+    if (next === "(" || (m[3] === undefined && (next === "[" || next === ":"))) continue;
+
+    const image = m[1] === "!";
+    const textFrom = start + (image ? 2 : 1);
+    const text = lineText.slice(textFrom, textFrom + (m[2] ?? "").length);
+    if (text.startsWith("^")) continue; // footnote reference
+    const ref = m[3];
+    const kind = ref === undefined ? "shortcut" : ref.trim().length === 0 ? "collapsed" : "full";
+    const key = normalizeReferenceLabel(kind === "full" ? (ref ?? "") : text);
+    if (key.length === 0) continue;
+    if (kind === "shortcut" && !isDefined(key)) continue;
+
+    out.push({ kind, image, text, key, from: start, to: end, textFrom, textTo: textFrom + text.length });
+  }
+  return out;
+}
+
+// Link text may hold one level of brackets (`[![badge](b.svg)](url)`); the destination is `<...>` or has balanced
+// parentheses, followed by an optional title.
+const INLINE_LINK_RE =
+  /(!?)\[((?:[^[\]]|\[[^[\]]*\])*)\]\((\s*)(<[^<>\n]*>|(?:[^\s()]|\([^\s()]*\))*)(?:(\s+)("[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/g;
+const CODE_SPAN_RE = /(?<!`)(`+)(?!`)([\s\S]*?[^`])\1(?!`)/g;
+const LIST_ITEM_RE = /^ {0,3}(?:[-*+]|\d{1,9}[.)])(?:[ \t]|$)/;
+const FOOTNOTE_DEFINITION_RE = /^ {0,3}\[\^[^\]\s]+\]:/;
+const INDENTED_CODE_RE = /^(?: {4}| {0,3}\t)/;
+
+/** `lineText` with inline code spans blanked out, so offsets into the result still point into `lineText`. */
+export function maskCodeSpans(lineText: string): string {
+  return lineText.replace(CODE_SPAN_RE, (code) => " ".repeat(code.length));
+}
+
+/**
+ * Finds inline links and images on one line, outside code spans. Images inside a link's text are returned too,
+ * after the link. Links with an empty destination are skipped.
+ */
+export function findInlineLinks(lineText: string): InlineLinkMatch[] {
+  return findInlineLinksIn(lineText, maskCodeSpans(lineText), 0);
+}
+
+function findInlineLinksIn(lineText: string, prose: string, offset: number): InlineLinkMatch[] {
+  const out: InlineLinkMatch[] = [];
+  for (const m of prose.slice(offset).matchAll(INLINE_LINK_RE)) {
+    const from = offset + (m.index ?? 0);
+    if (from > 0 && prose[from - 1] === "\\") continue;
+    const image = m[1] === "!";
+    const textFrom = from + (image ? 2 : 1);
+    const textTo = textFrom + (m[2] ?? "").length;
+    const rawHref = m[4] ?? "";
+    const angled = rawHref.startsWith("<");
+    const href = angled ? rawHref.slice(1, -1) : rawHref;
+    if (href.length === 0) continue;
+    const hrefFrom = textTo + 2 + (m[3] ?? "").length + (angled ? 1 : 0);
+    const hrefTo = hrefFrom + href.length;
+    const titleFrom = hrefTo + (angled ? 1 : 0) + (m[5] ?? "").length + 1;
+    const title = m[6] !== undefined ? lineText.slice(titleFrom, titleFrom + m[6].length - 2) : undefined;
+    const text = lineText.slice(textFrom, textTo);
+    out.push({ image, text, href: lineText.slice(hrefFrom, hrefTo), title, from, to: from + m[0].length, hrefFrom, hrefTo });
+    if (!image) out.push(...findInlineLinksIn(lineText, prose.slice(0, textTo), textFrom));
+  }
+  return out;
+}
+
+/**
+ * Like `forEachLineOutsideFences`, but also skips indented code blocks: lines indented four columns after a blank
+ * line, unless they continue a list item or footnote definition.
+ */
+export function forEachProseLine(lines: readonly string[], fn: (text: string, line: number) => void): void {
+  let previous = -1;
+  let previousBlank = true;
+  let inCode = false;
+  let inContainer = false;
+  forEachLineOutsideFences(lines, (text, line) => {
+    // A fenced block in between ends a paragraph just like a blank line.
+    const afterBreak = previousBlank || line !== previous + 1;
+    previous = line;
+    if (text.trim().length === 0) {
+      previousBlank = true;
+      fn(text, line);
+      return;
+    }
+    previousBlank = false;
+    if (INDENTED_CODE_RE.test(text)) {
+      if (inCode || (afterBreak && !inContainer)) {
+        inCode = true;
+        return;
+      }
+    } else {
+      inCode = false;
+      if (LIST_ITEM_RE.test(text) || FOOTNOTE_DEFINITION_RE.test(text)) inContainer = true;
+      else if (afterBreak) inContainer = false;
+    }
+    fn(text, line);
+  });
+}
+
+export function forEachLineOutsideFences(lines: readonly string[], fn: (text: string, line: number) => void): void {
+  let fence: { char: string; len: number } | null = null;
+  for (let line = 0; line < lines.length; line++) {
+    const text = lines[line] ?? "";
+    const fenceMatch = /^\s*(```+|~~~+)/.exec(text);
+    if (fenceMatch) {
+      const marker = fenceMatch[1] ?? "";
+      if (!fence) {
+        fence = { char: marker[0] ?? "`", len: marker.length };
+        continue;
+      }
+      if (marker[0] === fence.char && marker.length >= fence.len && /^\s*(```+|~~~+)\s*$/.test(text)) {
+        fence = null;
+        continue;
+      }
+    }
+    if (fence) continue;
+    fn(text, line);
+  }
+}
@@ -0,0 +1,462 @@
+import {
+  assertExtensionToGraphMessage,
+  filterNoteGraph,
+  GraphToExtensionMessage,
+  NoteGraph,
+  NoteGraphNode
+} from "../shared/noteGraph";
+
+type VsCodeApi = {
+  postMessage: (msg: unknown) => void;
+  getState: () => unknown;
+  setState: (state: unknown) => void;
+};
+
+declare function acquireVsCodeApi(): VsCodeApi;
+
+type SimNode = NoteGraphNode & {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  degree: number;
+};
+
+type SimEdge = { source: SimNode; target: SimNode };
+
+type ViewState = {
+  scope: "local" | "all";
+  depth: number;
+  folder: string;
+  tag: string;
+  highlightOrphans: boolean;
+};
+
+const vscode = acquireVsCodeApi();
+const canvas = document.getElementById("graph") as HTMLCanvasElement;
+const ctx = canvas.getContext("2d") as CanvasRenderingContext2D;
+const tooltip = document.getElementById("tooltip") as HTMLDivElement;
+const scopeEl = document.getElementById("scope") as HTMLSelectElement;
+const depthEl = document.getElementById("depth") as HTMLInputElement;
+const folderEl = document.getElementById("folder") as HTMLSelectElement;
+const tagEl = document.getElementById("tag") as HTMLSelectElement;
+const orphansEl = document.getElementById("orphans") as HTMLInputElement;
+const statsEl = document.getElementById("stats") as HTMLSpanElement;
+
+const LINK_DISTANCE = 80;
+const REPULSION = 2400;
+const GRID = 160;
+
+let fullGraph: NoteGraph = { nodes: [], edges: [] };
+let activeId: string | null = null;
+let nodes: SimNode[] = [];
+let edges: SimEdge[] = [];
+let neighborIds = new Map<string, Set<string>>();
+/** Positions survive filter changes and index refreshes so the layout does not jump around. */
+const positions = new Map<string, { x: number; y: number }>();
+let alpha = 0;
+let frame: number | null = null;
+let hovered: SimNode | null = null;
+/** In a local graph the center note is pinned at the origin. */
+let pinnedId: string | null = null;
+const camera = { x: 0, y: 0, scale: 1 };
+
+const state: ViewState = {
+  scope: "local",
+  depth: 2,
+  folder: "",
+  tag: "",
+  highlightOrphans: true,
+  ...(vscode.getState() as Partial<ViewState> | undefined)
+};
+
+function post(msg: GraphToExtensionMessage) {
+  vscode.postMessage(msg);
+}
+
+function saveState() {
+  vscode.setState(state);
+}
+
+function syncControls() {
+  scopeEl.value = state.scope;
+  depthEl.value = String(state.depth);
+  depthEl.disabled = state.scope !== "local";
+  orphansEl.checked = state.highlightOrphans;
+  fillSelect(folderEl, "All folders", collectFolders(fullGraph.nodes), state.folder);
+  fillSelect(tagEl, "All tags", collectTags(fullGraph.nodes), state.tag);
+}
+
+function fillSelect(select: HTMLSelectElement, emptyLabel: string, values: string[], selected: string) {
+  select.innerHTML = "";
+  const options = selected && !values.includes(selected) ? [selected, ...values] : values;
+  for (const value of ["", ...options]) {
+    const opt = document.createElement("option");
+    opt.value = value;
+    opt.textContent = value || emptyLabel;
+    select.appendChild(opt);
+  }
+  select.value = selected;
+}
+
+function collectFolders(list: NoteGraphNode[]): string[] {
+  const out = new Set<string>();
+  for (const n of list) {
+    const parts = n.path.split("/").slice(0, -1);
+    for (let i = 1; i <= parts.length; i++) out.add(parts.slice(0, i).join("/"));
+  }
+  return [...out].sort((a, b) => a.localeCompare(b));
+}
+
+function collectTags(list: NoteGraphNode[]): string[] {
+  const out = new Map<string, string>();
+  for (const n of list) for (const t of n.tags) if (!out.has(t.toLowerCase())) out.set(t.toLowerCase(), t);
+  return [...out.values()].sort((a, b) => a.localeCompare(b));
+}
+
+function rebuild() {
+  const local = state.scope === "local" && activeId !== null;
+  pinnedId = local ? activeId : null;
+  const visible = filterNoteGraph(fullGraph, {
+    folder: state.folder,
+    tag: state.tag,
+    depth: local ? state.depth : 0,
+    centerId: activeId
+  });
+
+  const byId = new Map<string, SimNode>();
+  nodes = visible.nodes.map((n, i) => {
+    const known = positions.get(n.id);
+    // New nodes start on a small spiral so the first ticks do not explode from overlapping points.
+    const angle = i * 2.399963;
+    const radius = 10 * Math.sqrt(i + 1);
+    const node: SimNode = {
+      ...n,
+      x: known?.x ?? Math.cos(angle) * radius,
+      y: known?.y ?? Math.sin(angle) * radius,
+      vx: 0,
+      vy: 0,
+      degree: 0
+    };
+    byId.set(n.id, node);
+    return node;
+  });
+  edges = [];
+  neighborIds = new Map();
+  for (const e of visible.edges) {
+    const source = byId.get(e.source);
+    const target = byId.get(e.target);
+    if (!source || !target) continue;
+    edges.push({ source, target });
+    source.degree++;
+    target.degree++;
+    neighborIds.set(source.id, (neighborIds.get(source.id) ?? new Set()).add(target.id));
+    neighborIds.set(target.id, (neighborIds.get(target.id) ?? new Set()).add(source.id));
+  }
+
+  const orphanCount = nodes.filter((n) => n.orphan).length;
+  const scopeNote = state.scope === "local" && activeId === null ? " (no active note: showing whole workspace)" : "";
+  statsEl.textContent = `${nodes.length} notes, ${edges.length} links, ${orphanCount} orphans${scopeNote}`;
+  if (hovered && !byId.has(hovered.id)) hideTooltip();
+  reheat(1);
+}
+
+function reheat(value: number) {
+  alpha = Math.max(alpha, value);
+  if (frame === null) frame = requestAnimationFrame(tick);
+}
+
+function tick() {
+  frame = null;
+  for (let i = 0; i < 3; i++) step();
+  draw();
+  alpha *= 0.97;
+  if (alpha > 0.005) frame = requestAnimationFrame(tick);
+  else for (const n of nodes) positions.set(n.id, { x: n.x, y: n.y });
+}
+
+function step() {
+  // Repulsion between nearby nodes only (uniform grid), so large vaults stay interactive.
+  const grid = new Map<string, SimNode[]>();
+  for (const n of nodes) {
+    const key = `${Math.floor(n.x / GRID)},${Math.floor(n.y / GRID)}`;
+    const cell = grid.get(key);
+    if (cell) cell.push(n);
+    else grid.set(key, [n]);
+  }
+  for (const n of nodes) {
+    const cx = Math.floor(n.x / GRID);
+    const cy = Math.floor(n.y / GRID);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const m of grid.get(`${cx + dx},${cy + dy}`) ?? []) {
+          if (m === n) continue;
+          let ddx = n.x - m.x;
+          let ddy = n.y - m.y;
+          let d2 = ddx * ddx + ddy * ddy;
+          if (d2 === 0) {
+            ddx = Math.random() - 0.5;
+            ddy = Math.random() - 0.5;
+            d2 = ddx * ddx + ddy * ddy;
+          }
+          if (d2 > GRID * GRID) continue;
+          const f = (REPULSION / d2) * alpha;
+          n.vx += ddx * f * 0.05;
+          n.vy += ddy * f * 0.05;
+        }
+      }
+    }
+  }
+
+  for (const e of edges) {
+    const dx = e.target.x - e.source.x;
+    const dy = e.target.y - e.source.y;
+    const d = Math.sqrt(dx * dx + dy * dy) || 1;
+    const f = ((d - LINK_DISTANCE) / d) * 0.05 * alpha;
+    e.source.vx += dx * f;
+    e.source.vy += dy * f;
+    e.target.vx -= dx * f;
+    e.target.vy -= dy * f;
+  }
+
+  for (const n of nodes) {
+    // Weak gravity keeps disconnected components (and orphans) on screen.
+    n.vx -= n.x * 0.004 * alpha;
+    n.vy -= n.y * 0.004 * alpha;
+    n.vx *= 0.6;
+    n.vy *= 0.6;
+    n.x += n.vx;
+    n.y += n.vy;
+    if (n.id === pinnedId) {
+      n.x = 0;
+      n.y = 0;
+    }
+  }
+}
+
+function nodeRadius(n: SimNode): number {
+  return 4 + Math.sqrt(n.degree) * 1.5;
+}
+
+function themeColor(name: string, fallback: string): string {
+  const value = getComputedStyle(document.body).getPropertyValue(name).trim();
+  return value.length > 0 ? value : fallback;
+}
+
+function draw() {
+  const dpr = window.devicePixelRatio || 1;
+  const width = canvas.clientWidth;
+  const height = canvas.clientHeight;
+  if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  ctx.translate(width / 2 + camera.x, height / 2 + camera.y);
+  ctx.scale(camera.scale, camera.scale);
+
+  const fg = themeColor("--vscode-foreground", "#cccccc");
+  const edgeColor = themeColor("--vscode-descriptionForeground", "#888888");
+  const accent = themeColor("--vscode-textLink-foreground", "#3794ff");
+  const warning = themeColor("--vscode-editorWarning-foreground", "#cca700");
+  const focus = hovered ? (neighborIds.get(hovered.id) ?? new Set<string>()) : null;
+
+  ctx.lineWidth = 1 / camera.scale;
+  for (const e of edges) {
+    const lit = hovered !== null && (e.source === hovered || e.target === hovered);
+    ctx.globalAlpha = focus && !lit ? 0.1 : lit ? 0.9 : 0.35;
+    ctx.strokeStyle = lit ? accent : edgeColor;
+    ctx.beginPath();
+    ctx.moveTo(e.source.x, e.source.y);
+    ctx.lineTo(e.target.x, e.target.y);
+    ctx.stroke();
+  }
+
+  const showAllLabels = camera.scale >= 1.2 || nodes.length <= 40;
+  ctx.font = `${11 / camera.scale}px ${getComputedStyle(document.body).fontFamily}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "top";
+  for (const n of nodes) {
+    const isActive = n.id === activeId;
+    const dimmed = focus !== null && n !== hovered && !focus.has(n.id);
+    const r = nodeRadius(n);
+    ctx.globalAlpha = dimmed ? 0.2 : 1;
+    ctx.fillStyle = isActive ? accent : state.highlightOrphans && n.orphan ? warning : fg;
+    ctx.beginPath();
+    ctx.arc(n.x, n.y, r, 0, Math.PI * 2);
+    ctx.fill();
+    if (isActive) {
+      ctx.strokeStyle = accent;
+      ctx.lineWidth = 2 / camera.scale;
+      ctx.beginPath();
+      ctx.arc(n.x, n.y, r + 3 / camera.scale, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.lineWidth = 1 / camera.scale;
+    }
+    if (showAllLabels || isActive || n === hovered || (focus?.has(n.id) ?? false)) {
+      ctx.fillStyle = fg;
+      ctx.fillText(n.title, n.x, n.y + r + 2 / camera.scale);
+    }
+  }
+  ctx.globalAlpha = 1;
+}
+
+function toGraphPoint(clientX: number, clientY: number): { x: number; y: number } {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: (clientX - rect.left - rect.width / 2 - camera.x) / camera.scale,
+    y: (clientY - rect.top - rect.height / 2 - camera.y) / camera.scale
+  };
+}
+
+function nodeAt(clientX: number, clientY: number): SimNode | null {
+  const p = toGraphPoint(clientX, clientY);
+  let best: SimNode | null = null;
+  let bestDist = Infinity;
+  for (const n of nodes) {
+    const d = Math.hypot(n.x - p.x, n.y - p.y);
+    if (d <= nodeRadius(n) + 4 / camera.scale && d < bestDist) {
+      best = n;
+      bestDist = d;
+    }
+  }
+  return best;
+}
+
+function showTooltip(n: SimNode, clientX: number, clientY: number) {
+  tooltip.textContent = "";
+  const title = document.createElement("div");
+  title.className = "title";
+  title.textContent = n.title;
+  const detail = document.createElement("div");
+  detail.textContent = n.path;
+  tooltip.append(title, detail);
+  if (n.tags.length > 0) {
+    const tags = document.createElement("div");
+    tags.textContent = n.tags.map((t) => `#${t}`).join(" ");
+    tooltip.append(tags);
+  }
+  tooltip.hidden = false;
+  tooltip.style.left = `${clientX + 12}px`;
+  tooltip.style.top = `${clientY + 12}px`;
+}
+
+function hideTooltip() {
+  hovered = null;
+  tooltip.hidden = true;
+}
+
+let drag: { x: number; y: number; camX: number; camY: number; moved: boolean } | null = null;
+
+canvas.addEventListener("mousedown", (e) => {
+  drag = { x: e.clientX, y: e.clientY, camX: camera.x, camY: camera.y, moved: false };
+});
+
+window.addEventListener("mouseup", (e) => {
+  const wasClick = drag !== null && !drag.moved;
+  drag = null;
+  if (!wasClick || e.target !== canvas) return;
+  const hit = nodeAt(e.clientX, e.clientY);
+  if (hit) post({ type: "OPEN_NOTE", id: hit.id, toSide: e.altKey });
+});
+
+canvas.addEventListener("mousemove", (e) => {
+  if (drag) {
+    if (Math.hypot(e.clientX - drag.x, e.clientY - drag.y) > 3) drag.moved = true;
+    if (drag.moved) {
+      camera.x = drag.camX + (e.clientX - drag.x);
+      camera.y = drag.camY + (e.clientY - drag.y);
+      draw();
+      return;
+    }
+  }
+  const hit = nodeAt(e.clientX, e.clientY);
+  if (hit !== hovered) {
+    hovered = hit;
+    canvas.style.cursor = hit ? "pointer" : "default";
+    draw();
+  }
+  if (hit) showTooltip(hit, e.clientX, e.clientY);
+  else tooltip.hidden = true;
+});
+
+canvas.addEventListener("mouseleave", () => {
+  hideTooltip();
+  draw();
+});
+
+canvas.addEventListener(
+  "wheel",
+  (e) => {
+    e.preventDefault();
+    const before = toGraphPoint(e.clientX, e.clientY);
+    camera.scale = Math.min(4, Math.max(0.1, camera.scale * Math.exp(-e.deltaY * 0.001)));
+    const after = toGraphPoint(e.clientX, e.clientY);
+    // Zoom around the cursor.
+    camera.x += (after.x - before.x) * camera.scale;
+    camera.y += (after.y - before.y) * camera.scale;
+    draw();
+  },
+  { passive: false }
+);
+
+window.addEventListener("resize", () => draw());
+
+scopeEl.addEventListener("change", () => {
+  state.scope = scopeEl.value === "all" ? "all" : "local";
+  depthEl.disabled = state.scope !== "local";
+  saveState();
+  rebuild();
+});
+depthEl.addEventListener("change", () => {
+  const depth = Number.parseInt(depthEl.value, 10);
+  state.depth = Number.isFinite(depth) ? Math.min(5, Math.max(1, depth)) : 2;
+  depthEl.value = String(state.depth);
+  saveState();
+  rebuild();
+});
+folderEl.addEventListener("change", () => {
+  state.folder = folderEl.value;
+  saveState();
+  rebuild();
+});
+tagEl.addEventListener("change", () => {
+  state.tag = tagEl.value;
+  saveState();
+  rebuild();
+});
+orphansEl.addEventListener("change", () => {
+  state.highlightOrphans = orphansEl.checked;
+  saveState();
+  draw();
+});
+
+window.addEventListener("message", (event: MessageEvent) => {
+  let msg;
+  try {
+    msg = assertExtensionToGraphMessage(event.data);
+  } catch (err) {
+    statsEl.textContent = err instanceof Error ? err.message : String(err);
+    return;
+  }
+  if (msg.type === "GRAPH_DATA") {
+    fullGraph = msg.graph;
+    activeId = msg.activeId;
+    syncControls();
+    rebuild();
+    return;
+  }
+  if (msg.activeId === activeId) return;
+  activeId = msg.activeId;
+  if (state.scope === "local") {
+    camera.x = 0;
+    camera.y = 0;
+    rebuild();
+  } else {
+    draw();
+  }
+});
+
+syncControls();
+post({ type: "GRAPH_READY" });
@@ -0,0 +1,300 @@
+/**
+ * Converts clipboard `text/html` (browsers, Word, Google Docs, ...) into GFM for pasting.
+ * Nothing is fetched: `http(s)` images stay as remote `![alt](url)` references (shown only when
+ * `quench.security.allowExternalImages` is on), while relative, `file:`, `data:` and `blob:` images become their alt
+ * text, because they would resolve against the note or embed content the note does not own. Relative links and
+ * `javascript:` links keep only their text.
+ */
+
+const BLOCK_TAGS = new Set([
+  "ADDRESS", "ARTICLE", "ASIDE", "BLOCKQUOTE", "DD", "DETAILS", "DIV", "DL", "DT", "FIELDSET", "FIGCAPTION", "FIGURE",
+  "FOOTER", "FORM", "H1", "H2", "H3", "H4", "H5", "H6", "HEADER", "HR", "LI", "MAIN", "NAV", "OL", "P", "PRE",
+  "SECTION", "SUMMARY", "TABLE", "TBODY", "TD", "TFOOT", "TH", "THEAD", "TR", "UL"
+]);
+const SKIPPED_TAGS = new Set([
+  "SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "HEAD", "TITLE", "META", "LINK", "SVG", "IFRAME", "OBJECT", "EMBED",
+  "BUTTON", "SELECT", "TEXTAREA", "INPUT", "CANVAS"
+]);
+
+/** Stands in for blank lines inside code blocks so collapsing blank lines elsewhere leaves them alone. */
+const CODE_BLANK = "\u0001";
+/** Stands in for the `\` of a hard line break until trailing breaks have been dropped. */
+const HARD_BREAK = "\u0002";
+
+export function htmlToMarkdown(html: string): string {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return blockContent(convertChildren(doc.body))
+    .split(CODE_BLANK)
+    .join("")
+    .split(HARD_BREAK)
+    .join("\\")
+    .replace(/^[ \t]+$/gm, "");
+}
+
+function convertChildren(node: Node): string {
+  let out = "";
+  node.childNodes.forEach((child) => {
+    out += convertNode(child);
+  });
+  return out;
+}
+
+function convertNode(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return convertText(node);
+  if (!(node instanceof Element)) return "";
+  const tag = node.tagName.toUpperCase();
+  if (SKIPPED_TAGS.has(tag)) return "";
+
+  switch (tag) {
+    case "H1":
+    case "H2":
+    case "H3":
+    case "H4":
+    case "H5":
+    case "H6": {
+      const text = singleLine(convertChildren(node));
+      return text ? block(`${"#".repeat(Number(tag[1]))} ${text}`) : "";
+    }
+    case "BR":
+      return `${HARD_BREAK}\n`;
+    case "HR":
+      return block("---");
+    case "STRONG":
+    case "B":
+      return /font-weight:\s*(normal|[1-4]00)\b/i.test(node.getAttribute("style") ?? "")
+        ? convertChildren(node)
+        : wrapInline(convertChildren(node), "**");
+    case "EM":
+    case "I":
+    case "CITE":
+      return wrapInline(convertChildren(node), "*");
+    case "DEL":
+    case "S":
+    case "STRIKE":
+      return wrapInline(convertChildren(node), "~~");
+    case "SPAN":
+      return convertStyledSpan(node);
+    case "CODE":
+    case "KBD":
+    case "SAMP":
+    case "TT":
+      return inlineCode(node.textContent ?? "");
+    case "PRE":
+      return convertPre(node);
+    case "A":
+      return convertLink(node);
+    case "IMG":
+      return convertImage(node);
+    case "UL":
+    case "OL":
+      return convertList(node);
+    case "BLOCKQUOTE": {
+      const inner = blockContent(convertChildren(node));
+      return inner ? block(inner.split("\n").map((l) => (l ? `> ${l}` : ">")).join("\n")) : "";
+    }
+    case "TABLE":
+      return convertTable(node as HTMLTableElement);
+    default:
+      return BLOCK_TAGS.has(tag) ? block(convertChildren(node)) : convertChildren(node);
+  }
+}
+
+function convertText(node: Node): string {
+  let text = (node.nodeValue ?? "").replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "").replace(/[\s\u00a0]+/g, " ");
+  const prev = node.previousSibling;
+  const next = node.nextSibling;
+  const atBlockEdge = (sibling: Node | null) => (sibling ? isBlockNode(sibling) : !isInlineElement(node.parentNode));
+  if (atBlockEdge(prev) || prev?.nodeName === "BR") text = text.replace(/^ /, "");
+  if (atBlockEdge(next)) text = text.replace(/ $/, "");
+  if (!text) return "";
+  text = escapeInline(text);
+  return startsLine(node) ? escapeLineStart(text) : text;
+}
+
+/** Google Docs marks formatting with inline styles instead of `<b>` / `<i>`. */
+function convertStyledSpan(node: Element): string {
+  const style = node.getAttribute("style") ?? "";
+  if (/mso-list:\s*ignore/i.test(style)) return ""; // Word's literal bullet / number
+  let out = convertChildren(node);
+  if (/font-weight:\s*(bold|[6-9]00)\b/i.test(style)) out = wrapInline(out, "**");
+  if (/font-style:\s*italic\b/i.test(style)) out = wrapInline(out, "*");
+  if (/text-decoration[^;]*line-through/i.test(style)) out = wrapInline(out, "~~");
+  return out;
+}
+
+function convertPre(node: Element): string {
+  const code = preText(node).replace(/\n$/, "");
+  const fence = "`".repeat(Math.max(3, longestRun(code, "`") + 1));
+  const lines = code.split("\n").map((l) => (l.trim() ? l : CODE_BLANK));
+  return block(`${fence}${codeLanguage(node)}\n${lines.join("\n")}\n${fence}`);
+}
+
+/** Text of a `<pre>`, with `<br>` and line-per-element markup turned into newlines. */
+function preText(node: Node): string {
+  let out = "";
+  node.childNodes.forEach((child) => {
+    if (child.nodeType === Node.TEXT_NODE) out += child.nodeValue ?? "";
+    else if (child.nodeName === "BR") out += "\n";
+    else if (child instanceof Element) {
+      const text = preText(child);
+      out += isBlockNode(child) && !text.endsWith("\n") ? `${text}\n` : text;
+    }
+  });
+  return out;
+}
+
+/** `language-x` / `lang-x` on the `<pre>` or its `<code>`, or GitHub's `highlight-source-x` wrapper. */
+function codeLanguage(pre: Element): string {
+  const classes = [pre.className, pre.querySelector("code")?.className ?? "", pre.parentElement?.className ?? ""].join(" ");
+  const m = /(?:^|\s)(?:language|lang|highlight-source)-([\w+#.-]+)/.exec(classes);
+  return m?.[1] ?? "";
+}
+
+function convertLink(node: Element): string {
+  const content = convertChildren(node);
+  const href = (node.getAttribute("href") ?? "").trim();
+  if (!/^(https?:|mailto:)/i.test(href) || !content.trim()) return content;
+  const text = singleLine(content);
+  if (text === escapeInline(href) || text === escapeInline(href.replace(/^mailto:/i, ""))) return `<${href}>`;
+  return `[${text}](${safeUrl(href)})`;
+}
+
+function convertImage(node: Element): string {
+  const alt = escapeInline((node.getAttribute("alt") ?? "").replace(/\s+/g, " ").trim());
+  const src = (node.getAttribute("src") ?? "").trim();
+  if (!/^https?:\/\//i.test(src)) return alt;
+  return `![${alt}](${safeUrl(src)})`;
+}
+
+function convertList(node: Element): string {
+  const ordered = node.tagName.toUpperCase() === "OL";
+  let number = ordered ? Number.parseInt(node.getAttribute("start") ?? "1", 10) || 1 : 1;
+  const items: { marker: string; content: string }[] = [];
+  node.childNodes.forEach((child) => {
+    if (!(child instanceof Element)) return;
+    const tag = child.tagName.toUpperCase();
+    if (tag === "UL" || tag === "OL") {
+      // Invalid but common: a nested list directly inside the list belongs to the previous item.
+      const nested = blockContent(convertList(child));
+      const last = items[items.length - 1];
+      if (last && nested) last.content += `\n${nested}`;
+      else if (nested) items.push({ marker: ordered ? `${number++}.` : "-", content: nested });
+      return;
+    }
+    if (tag !== "LI") return;
+
+    let content = blockContent(convertChildren(child));
+    if (!child.querySelector(":scope > p, :scope > pre, :scope > blockquote, :scope > table")) {
+      content = content.replace(/\n\n+/g, "\n");
+    }
+    const checkbox = child.querySelector<HTMLInputElement>(":scope > input[type=checkbox], :scope > p > input[type=checkbox]");
+    if (checkbox) content = `[${checkbox.checked ? "x" : " "}] ${content}`;
+    items.push({ marker: ordered ? `${number++}.` : "-", content });
+  });
+  if (items.length === 0) return "";
+  const lines = items.map(({ marker, content }) => {
+    const indent = " ".repeat(marker.length + 1);
+    return `${marker} ${content.split("\n").map((l, i) => (i === 0 || !l ? l : indent + l)).join("\n")}`;
+  });
+  const loose = lines.some((item) => item.includes("\n\n"));
+  return block(lines.join(loose ? "\n\n" : "\n"));
+}
+
+function convertTable(table: HTMLTableElement): string {
+  const rows = [...table.rows].map((row) =>
+    [...row.cells].flatMap((cell) => {
+      const text = singleLine(convertChildren(cell)).replace(/\|/g, "\\|");
+      return [text, ...Array<string>(Math.max(0, cell.colSpan - 1)).fill("")];
+    })
+  );
+  const width = Math.max(0, ...rows.map((r) => r.length));
+  if (width === 0) return "";
+  const header = rows[0] ?? [];
+  const align = [...(table.rows[0]?.cells ?? [])].flatMap((cell) => {
+    const value = (cell.getAttribute("align") ?? /text-align:\s*(\w+)/i.exec(cell.getAttribute("style") ?? "")?.[1] ?? "").toLowerCase();
+    const rule = value === "center" ? ":---:" : value === "right" ? "---:" : value === "left" ? ":---" : "---";
+    return [rule, ...Array<string>(Math.max(0, cell.colSpan - 1)).fill("---")];
+  });
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+  const separator = line(Array.from({ length: width }, (_, i) => align[i] ?? "---"));
+  return block([line(header), separator, ...rows.slice(1).map(line)].join("\n"));
+}
+
+function block(content: string): string {
+  const inner = blockContent(content);
+  return inner ? `\n\n${inner}\n\n` : "";
+}
+
+/** Trims a block's content, collapsing blank lines and dropping hard breaks that end a paragraph. */
+function blockContent(content: string): string {
+  return content
+    .replace(new RegExp(`${HARD_BREAK}\n(?=[ \t]*(?:\n|$))`, "g"), "\n")
+    .replace(/\n[ \t]*(?:\n[ \t]*)+\n/g, "\n\n")
+    .replace(/^\s+|\s+$/g, "");
+}
+
+function singleLine(content: string): string {
+  return content.replace(new RegExp(`${HARD_BREAK}?\n+`, "g"), " ").replace(/\s+/g, " ").trim();
+}
+
+/** Moves surrounding whitespace outside the markers: `a<b> b </b>c` → `a **b** c`. */
+function wrapInline(content: string, marker: string): string {
+  const m = /^(\s*)([\s\S]*?)(\s*)$/.exec(content);
+  const inner = m?.[2] ?? "";
+  if (!inner || inner.includes("\n\n")) return content;
+  return `${m?.[1] ?? ""}${marker}${inner}${marker}${m?.[3] ?? ""}`;
+}
+
+function inlineCode(text: string): string {
+  const code = text.replace(/\s+/g, " ");
+  if (!code.trim()) return code;
+  const fence = "`".repeat(longestRun(code, "`") + 1);
+  const pad = code.startsWith("`") || code.endsWith("`") ? " " : "";
+  return `${fence}${pad}${code}${pad}${fence}`;
+}
+
+function escapeInline(text: string): string {
+  return text.replace(/[\\`*_[\]]/g, "\\$&").replace(/<(?=[A-Za-z/!?])/g, "\\<");
+}
+
+/** Escapes text that would otherwise start a heading, quote, list item or thematic break. */
+function escapeLineStart(text: string): string {
+  return text
+    .replace(/^(#{1,6}(?:\s|$)|>|[-+](?:\s|$)|=+\s*$)/, "\\$1")
+    .replace(/^(\d+)([.)])(?=\s|$)/, "$1\\$2");
+}
+
+/** Whether `node` is the first content of its line (nothing but blocks or `<br>` before it). */
+function startsLine(node: Node): boolean {
+  for (let n: Node | null = node; n && n.nodeName !== "BODY"; n = n.parentNode) {
+    for (let p = n.previousSibling; p; p = p.previousSibling) {
+      if (isBlockNode(p) || p.nodeName === "BR") return true;
+      if ((p.textContent ?? "").trim() || p.nodeName === "IMG") return false;
+    }
+    if (n.parentNode && isBlockNode(n.parentNode)) return true;
+  }
+  return true;
+}
+
+function isBlockNode(node: Node): boolean {
+  return node instanceof Element && BLOCK_TAGS.has(node.tagName.toUpperCase());
+}
+
+function isInlineElement(node: Node | null): boolean {
+  return node instanceof Element && !isBlockNode(node) && node.tagName.toUpperCase() !== "BODY";
+}
+
+function longestRun(text: string, char: string): number {
+  let longest = 0;
+  let run = 0;
+  for (const c of text) {
+    run = c === char ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+  return longest;
+}
+
+function safeUrl(url: string): string {
+  return url.replace(/[\s()<>]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`);
+}
@@ -0,0 +1,70 @@
+import { jpegOrientation, stripImageMetadata } from "../shared/imageMetadata";
+import { QuenchSettings } from "../shared/protocol";
+
+/**
+ * Processes pasted/dropped images before they are sent for saving (`quench.attachments.images.*`).
+ * Resizing and format conversion use the webview's own canvas codecs; an image that only needs its metadata
+ * stripped is not re-encoded (see imageMetadata.ts).
+ * SVG and GIF (possibly animated) are passed through untouched.
+ */
+
+export type ImageOptimizationSettings = QuenchSettings["attachments"]["images"];
+
+export type ProcessedImage = {
+  bytes: Uint8Array;
+  mime: string;
+  filenameHint: string;
+};
+
+const FORMAT_MIME = { webp: "image/webp", jpeg: "image/jpeg", png: "image/png" } as const;
+const MIME_EXT: Record<string, string> = { "image/webp": "webp", "image/jpeg": "jpg", "image/png": "png" };
+
+export async function processImage(file: Blob, filename: string, options: ImageOptimizationSettings): Promise<ProcessedImage> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const mime = file.type.toLowerCase();
+  const original: ProcessedImage = { bytes, mime, filenameHint: filename };
+  if (!mime.startsWith("image/") || mime === "image/svg+xml" || mime === "image/gif") return original;
+
+  // Formats the canvas cannot write (BMP, AVIF, ...) become PNG when they have to be re-encoded.
+  const targetMime = options.format !== "keep" ? FORMAT_MIME[options.format] : mime in MIME_EXT ? mime : "image/png";
+  const rotated = mime === "image/jpeg" && options.stripMetadata && jpegOrientation(bytes) > 1;
+  const needsSizeCheck = options.maxWidth > 0 || options.maxHeight > 0;
+  if (targetMime === mime && !needsSizeCheck && !rotated) {
+    return options.stripMetadata ? { ...original, bytes: stripImageMetadata(bytes, mime) } : original;
+  }
+
+  // Decoding applies the EXIF orientation, so the re-encoded image needs none.
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(
+      1,
+      options.maxWidth > 0 ? options.maxWidth / bitmap.width : 1,
+      options.maxHeight > 0 ? options.maxHeight / bitmap.height : 1
+    );
+    if (scale === 1 && targetMime === mime && !rotated) {
+      return options.stripMetadata ? { ...original, bytes: stripImageMetadata(bytes, mime) } : original;
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available for image processing.");
+    if (targetMime === "image/jpeg") {
+      // JPEG has no alpha; transparent areas would turn black.
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, targetMime, options.quality / 100));
+    // Some builds cannot encode every format and silently fall back to PNG.
+    if (!blob || blob.type !== targetMime) throw new Error(`This editor cannot encode ${targetMime}.`);
+    const ext = MIME_EXT[targetMime] ?? "png";
+    const base = filename.replace(/\.[^./]*$/, "") || "image";
+    return { bytes: new Uint8Array(await blob.arrayBuffer()), mime: targetMime, filenameHint: `${base}.${ext}` };
+  } finally {
+    bitmap.close();
+  }
+}
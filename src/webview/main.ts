@@ -5,17 +5,38 @@ import { EditorSelection, EditorState, StateEffect, StateField, Text } from "@co
 import { Decoration, DecorationSet, EditorView, WidgetType } from "@codemirror/view";
 import { Compartment } from "@codemirror/state";
 import { markdown } from "@codemirror/lang-markdown";
-import { defaultHighlightStyle, syntaxHighlighting } from "@codemirror/language";
+import { defaultHighlightStyle, syntaxHighlighting, syntaxTree } from "@codemirror/language";
 import { languages } from "@codemirror/language-data";
 import { keymap } from "@codemirror/view";
 import { indentLess, indentMore } from "@codemirror/commands";
+import { autocompletion, CompletionContext, CompletionResult } from "@codemirror/autocomplete";
 import {
   assertExtensionToWebviewMessage,
   ExtensionToWebviewMessage,
+  LinkCompletionItem,
+  LinkDiagnostic,
   QuenchSettings,
   TextChange,
   WebviewToExtensionMessage
 } from "../shared/protocol";
+import {
+  collectLinkDefinitions,
+  findReferenceLinks,
+  forEachLineOutsideFences,
+  LinkDefinition,
+  normalizeReferenceLabel,
+  parseLinkDefinition
+} from "../shared/referenceLinks";
+import { findExplicitHeadingId, findHtmlAnchorIds } from "../shared/headingIds";
+import { isPastedUrl, parseFileReference } from "../shared/pasteLinks";
+import { htmlToMarkdown } from "./htmlToMarkdown";
+import { ProcessedImage, processImage } from "./imageOptimization";
+import {
+  collectFootnoteDefinitions,
+  findFootnoteReferences,
+  FootnoteDefinition,
+  parseFootnoteDefinition
+} from "../shared/footnotes";
 
 const vscode = (window as any).__quench_vscode ?? acquireVsCodeApi();
 console.log("[Quench] Script loaded, vscode API:", vscode ? "available" : "NOT AVAILABLE");
@@ -91,6 +112,7 @@ const DEFAULT_KEYBINDINGS: QuenchKeybindings = {
   toggleHeading4: ["Mod-4"],
   toggleHeading5: ["Mod-5"],
   toggleHeading6: ["Mod-6"],
+  renameHeading: ["F2"],
   toggleBullets: ["Mod-'"],
   toggleCheckboxes: ["Mod-l", "Shift-Mod-'"],
 
@@ -130,6 +152,70 @@ const modifierHoverLinkField = StateField.define<DecorationSet>({
   provide: (f) => EditorView.decorations.from(f)
 });
 
+const setLinkDiagnosticsEffect = StateEffect.define<LinkDiagnostic[]>();
+const linkDiagnosticsField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update: (value, tr) => {
+    let next = value.map(tr.changes);
+    for (const e of tr.effects) {
+      if (!e.is(setLinkDiagnosticsEffect)) continue;
+      const docLength = tr.state.doc.length;
+      const ranges = e.value
+        .filter((d) => d.from < d.to && d.to <= docLength)
+        .sort((a, b) => a.from - b.from)
+        .map((d) => Decoration.mark({ class: "qm-link-broken", attributes: { title: d.message } }).range(d.from, d.to));
+      next = Decoration.set(ranges);
+    }
+    return next;
+  },
+  provide: (f) => EditorView.decorations.from(f)
+});
+
+// Briefly highlighted line after REVEAL (e.g. the heading a link points at).
+const setRevealedLineEffect = StateEffect.define<number | null>();
+const revealedLineField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update: (value, tr) => {
+    let next = value.map(tr.changes);
+    for (const e of tr.effects) {
+      if (!e.is(setRevealedLineEffect)) continue;
+      next = e.value === null ? Decoration.none : Decoration.set([Decoration.line({ class: "qm-revealed-line" }).range(e.value)]);
+    }
+    return next;
+  },
+  provide: (f) => EditorView.decorations.from(f)
+});
+
+let revealFlashTimer: number | null = null;
+function revealLine(line: number, column = 0) {
+  if (!view) return;
+  const doc = view.state.doc;
+  const target = doc.line(Math.max(1, Math.min(doc.lines, line + 1)));
+  const pos = target.from;
+  view.dispatch({
+    selection: EditorSelection.cursor(pos + Math.min(column, target.length)),
+    effects: [EditorView.scrollIntoView(pos, { y: "start", yMargin: 24 }), setRevealedLineEffect.of(pos)]
+  });
+  view.focus();
+  if (revealFlashTimer !== null) window.clearTimeout(revealFlashTimer);
+  revealFlashTimer = window.setTimeout(() => {
+    revealFlashTimer = null;
+    view?.dispatch({ effects: setRevealedLineEffect.of(null) });
+  }, 1500);
+}
+
+// Reference-style link definitions (`[ref]: url`) of the whole document, keyed by normalized label.
+const linkDefinitionsField = StateField.define<Map<string, LinkDefinition>>({
+  create: (state) => collectLinkDefinitions([...state.doc.iterLines()]),
+  update: (value, tr) => (tr.docChanged ? collectLinkDefinitions([...tr.state.doc.iterLines()]) : value)
+});
+
+// Footnote definitions (`[^1]: text`) of the whole document, keyed by normalized label.
+const footnoteDefinitionsField = StateField.define<Map<string, FootnoteDefinition>>({
+  create: (state) => collectFootnoteDefinitions([...state.doc.iterLines()]),
+  update: (value, tr) => (tr.docChanged ? collectFootnoteDefinitions([...tr.state.doc.iterLines()]) : value)
+});
+
 type TableAlign = "left" | "center" | "right";
 
 type ParsedGfmTable = {
@@ -604,6 +690,20 @@ function initEditor(text: string) {
     return true;
   };
 
+  const renameHeadingAtCursor = (view: EditorView): boolean => {
+    const line = view.state.doc.lineAt(view.state.selection.main.head);
+    const isAtx = /^\s{0,3}#{1,6}\s+\S/.test(line.text);
+    const next = line.number < view.state.doc.lines ? view.state.doc.line(line.number + 1).text : "";
+    const isSetext = line.text.trim().length > 0 && /^\s{0,3}(=+|-+)\s*$/.test(next);
+    if (!isAtx && !isSetext) return false;
+    if (pendingRequestIds.length > 0) {
+      showBanner("There are pending edits. Please wait a moment and try again.");
+      return true;
+    }
+    post({ type: "RENAME_HEADING", baseVersion: baseVersionForNextEdit(), line: line.number - 1 });
+    return true;
+  };
+
   const handlers: Record<string, (view: EditorView) => boolean> = {
     indentMore: (v) => indentMore(v),
     indentLess: (v) => indentLess(v),
@@ -613,6 +713,7 @@ function initEditor(text: string) {
     toggleHeading4: (v) => toggleHeadingLevel(v, 4),
     toggleHeading5: (v) => toggleHeadingLevel(v, 5),
     toggleHeading6: (v) => toggleHeadingLevel(v, 6),
+    renameHeading: (v) => renameHeadingAtCursor(v),
     toggleBullets: (v) => toggleBullets(v),
     toggleCheckboxes: (v) => toggleCheckboxes(v),
     selectNextOccurrence: (v) => selectNextOccurrence(v),
@@ -639,6 +740,11 @@ function initEditor(text: string) {
       syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
       lineWrappingCompartment.of(settings?.editor?.lineWrapping ? EditorView.lineWrapping : []),
       modifierHoverLinkField,
+      linkDiagnosticsField,
+      revealedLineField,
+      linkDefinitionsField,
+      footnoteDefinitionsField,
+      autocompletion({ override: [linkCompletionSource], icons: false }),
       keybindingsCompartment.of(buildKeymapExtension(settings?.keybindings, handlers)),
       livePreviewPlugin(),
       EditorView.updateListener.of((update) => {
@@ -740,14 +846,21 @@ function handleRequestSelection(requestId: string) {
   });
 }
 
-function showPreview(x: number, y: number, title: string, text: string) {
+function showPreview(x: number, y: number, title: string, text: string, html?: string) {
+  cancelHidePreview();
   preview.innerHTML = "";
   const titleEl = document.createElement("div");
   titleEl.className = "qm-preview-title";
   titleEl.textContent = title;
   const bodyEl = document.createElement("div");
-  bodyEl.className = "qm-preview-body";
-  bodyEl.textContent = text;
+  if (html !== undefined) {
+    // Rendered by the extension with raw HTML disabled (see PreviewService).
+    bodyEl.className = "qm-preview-body qm-preview-rendered";
+    bodyEl.innerHTML = html;
+  } else {
+    bodyEl.className = "qm-preview-body";
+    bodyEl.textContent = text;
+  }
   preview.appendChild(titleEl);
   preview.appendChild(bodyEl);
   preview.hidden = false;
@@ -760,11 +873,39 @@ function showPreview(x: number, y: number, title: string, text: string) {
 }
 
 function hidePreview() {
+  cancelHidePreview();
   preview.hidden = true;
   preview.innerHTML = "";
 }
 
-function requestResourceUri(kind: "image", href: string, fromUri: string): string | null {
+// Leaving the link towards the (scrollable) preview card should not close it.
+let hidePreviewTimer: number | null = null;
+function hidePreviewSoon() {
+  cancelHidePreview();
+  hidePreviewTimer = window.setTimeout(() => {
+    hidePreviewTimer = null;
+    if (!preview.matches(":hover")) hidePreview();
+  }, 200);
+}
+function cancelHidePreview() {
+  if (hidePreviewTimer === null) return;
+  window.clearTimeout(hidePreviewTimer);
+  hidePreviewTimer = null;
+}
+
+preview.addEventListener("mouseleave", () => hidePreviewSoon());
+preview.addEventListener("mouseenter", () => cancelHidePreview());
+preview.addEventListener("click", (e) => {
+  const anchor = e.target instanceof Element ? e.target.closest("a") : null;
+  if (!anchor) return;
+  e.preventDefault();
+  const href = anchor.getAttribute("href");
+  if (!href) return;
+  hidePreview();
+  post({ type: "OPEN_LINK", href, fromUri: documentUri, toSide: e.altKey });
+});
+
+function requestResourceUri(kind: "image" | "media", href: string, fromUri: string): string | null {
   const cacheKey = `${fromUri}::${href}`;
   const hit = resolvedImageCache.get(cacheKey);
   if (hit?.kind === "ok") return hit.uri;
@@ -907,6 +1048,24 @@ class CodeBlockLangWidget extends WidgetType {
   }
 }
 
+class FootnoteRefWidget extends WidgetType {
+  constructor(private readonly label: string) {
+    super();
+  }
+  eq(other: FootnoteRefWidget) {
+    return this.label === other.label;
+  }
+  toDOM() {
+    const sup = document.createElement("sup");
+    sup.className = "md-footnote-ref";
+    sup.textContent = this.label;
+    return sup;
+  }
+  ignoreEvent() {
+    return false;
+  }
+}
+
 class HrWidget extends WidgetType {
   toDOM() {
     const wrap = document.createElement("div");
@@ -1008,6 +1167,12 @@ function livePreviewPlugin() {
           if (from >= to) return;
           builder.push(Decoration.mark({ class: cls }).range(from, to));
         };
+        // Link-target plumbing (`{#id}` suffixes, empty `<a id>` anchors) is hidden unless the cursor is on the line.
+        const hideOffLine = (line: { from: number; to: number }, from: number, to: number) => {
+          if (from >= to) return;
+          if (mode !== "always" && !selectionOverlaps(line.from, line.to)) builder.push(Decoration.replace({}).range(from, to));
+          else dimSyntax(from, to);
+        };
 
         for (const r of view.visibleRanges) {
           let pos = r.from;
@@ -1212,6 +1377,8 @@ function livePreviewPlugin() {
               dimSyntax(baseOffset, baseOffset + m[1].length);
               dimSyntax(baseOffset + m[1].length, baseOffset + m[1].length + m[2].length);
               addMark(baseOffset + m[1].length + m[2].length, line.to, `md-heading md-h${hashes}`);
+              const explicitId = findExplicitHeadingId(text);
+              if (explicitId) hideOffLine(line, baseOffset + explicitId.from, baseOffset + explicitId.to);
             }
             // Setext（次の行が === / --- の場合）
             if (!m && line.number < view.state.doc.lines) {
@@ -1221,6 +1388,8 @@ function livePreviewPlugin() {
                 const level = setext[1][0] === "=" ? 1 : 2;
                 builder.push(Decoration.line({ class: `md-heading-line md-h${level}` }).range(line.from));
                 addMark(baseOffset, line.to, `md-heading md-h${level}`);
+                const explicitId = findExplicitHeadingId(text);
+                if (explicitId) hideOffLine(line, baseOffset + explicitId.from, baseOffset + explicitId.to);
                 // 下線（====/----）は表示上ノイズになるので、編集していない時は隠す
                 if (!selectionOverlaps(next.from, Math.min(view.state.doc.length, next.to + 1))) {
                   builder.push(Decoration.replace({}).range(next.from, next.to));
@@ -1230,6 +1399,12 @@ function livePreviewPlugin() {
               }
             }
 
+            // 空の HTML アンカー（<a id="..."></a>）
+            for (const anchor of findHtmlAnchorIds(text)) {
+              const close = /^\s*<\/a>/i.exec(text.slice(anchor.to));
+              if (close) hideOffLine(line, baseOffset + anchor.from, baseOffset + anchor.to + close[0].length);
+            }
+
             // インラインコード
             for (const match of text.matchAll(/`([^`]+)`/g)) {
               const start = match.index ?? -1;
@@ -1279,6 +1454,23 @@ function livePreviewPlugin() {
             }
 
             // リンク/画像（簡易）
+            const addImageWidget = (href: string, widgetPos: number) => {
+              if (!settings) return;
+              if (/^https?:\/\//i.test(href) && !settings.security.allowExternalImages) return;
+              const cacheKey = `${documentUri}::${href}`;
+              const cached = resolvedImageCache.get(cacheKey);
+              const resolved = cached?.kind === "ok" ? cached.uri : null;
+              const error = cached?.kind === "error" ? cached.error : null;
+              if (!resolved && !error) {
+                requestResourceUri("image", href, documentUri);
+              }
+              builder.push(
+                Decoration.widget({
+                  widget: new ImageWidget({ src: resolved, error, href }),
+                  side: 1
+                }).range(widgetPos)
+              );
+            };
             for (const match of text.matchAll(/(!?)\[([^\]]*)\]\(([^)]+)\)/g)) {
               const start = match.index ?? -1;
               if (start < 0) continue;
@@ -1296,24 +1488,45 @@ function livePreviewPlugin() {
                 openBracket + 1 + label.length + 2 + href.length + 1
               ); // )
 
-              if (bang && settings) {
-                if (/^https?:\/\//i.test(href) && !settings.security.allowExternalImages) {
-                  continue;
+              if (bang) addImageWidget(href, openBracket + 1 + label.length + 2 + href.length + 1);
+            }
+
+            // 参照リンク（[text][ref] / [ref][] / [ref]）と定義行（[ref]: url）
+            {
+              const definition = parseLinkDefinition(text, line.number - 1);
+              if (definition) {
+                addMark(baseOffset + definition.hrefFrom, baseOffset + definition.hrefTo, "md-link-destination");
+              } else {
+                const definitions = view.state.field(linkDefinitionsField);
+                for (const ref of findReferenceLinks(text, (key) => definitions.has(key))) {
+                  if (ref.image) dimSyntax(baseOffset + ref.from, baseOffset + ref.from + 1);
+                  dimSyntax(baseOffset + ref.textFrom - 1, baseOffset + ref.textFrom); // [
+                  addMark(baseOffset + ref.textFrom, baseOffset + ref.textTo, "md-link");
+                  dimSyntax(baseOffset + ref.textTo, baseOffset + ref.to); // ][ref] / ][] / ]
+                  const def = definitions.get(ref.key);
+                  if (ref.image && def) addImageWidget(def.href, baseOffset + ref.to);
                 }
-                const cacheKey = `${documentUri}::${href}`;
-                const cached = resolvedImageCache.get(cacheKey);
-                const resolved = cached?.kind === "ok" ? cached.uri : null;
-                const error = cached?.kind === "error" ? cached.error : null;
-                if (!resolved && !error) {
-                  requestResourceUri("image", href, documentUri);
+              }
+            }
+
+            // 脚注（[^1] は上付きの番号、定義行 [^1]: はラベルを強調）
+            {
+              const definition = parseFootnoteDefinition(text);
+              if (definition) {
+                dimSyntax(baseOffset + definition.from, baseOffset + definition.from + 2); // [^
+                addMark(baseOffset + definition.from + 2, baseOffset + definition.to - 1, "md-footnote-label");
+                dimSyntax(baseOffset + definition.to - 1, baseOffset + definition.to + 1); // ]:
+              }
+              for (const ref of findFootnoteReferences(text)) {
+                const from = baseOffset + ref.from;
+                const to = baseOffset + ref.to;
+                if (mode !== "always" && !selectionOverlaps(from, to)) {
+                  builder.push(Decoration.replace({ widget: new FootnoteRefWidget(ref.label) }).range(from, to));
+                } else {
+                  dimSyntax(from, from + 2);
+                  addMark(from + 2, to - 1, "md-footnote-ref");
+                  dimSyntax(to - 1, to);
                 }
-                const widgetPos = openBracket + 1 + label.length + 2 + href.length + 1;
-                builder.push(
-                  Decoration.widget({
-                    widget: new ImageWidget({ src: resolved, error, href }),
-                    side: 1
-                  }).range(widgetPos)
-                );
               }
             }
 
@@ -1354,6 +1567,30 @@ function livePreviewPlugin() {
               }
             }
 
+            // <audio src> / <video src>（Insert Embed / 添付の埋め込み）
+            if (settings?.security.allowHtmlEmbeds) {
+              for (const match of text.matchAll(/<(audio|video)\b[^>]*\ssrc\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))[^>]*>/gi)) {
+                const start = match.index ?? -1;
+                const href = (match[3] ?? match[4] ?? match[5] ?? "").trim();
+                if (start < 0 || href.length === 0) continue;
+                const cached = resolvedImageCache.get(`${documentUri}::${href}`);
+                if (!cached) requestResourceUri("media", href, documentUri);
+                const closing = text.slice(start).search(/<\/(audio|video)>/i);
+                const end = closing >= 0 ? start + closing + text.slice(start + closing).indexOf(">") + 1 : start + match[0].length;
+                builder.push(
+                  Decoration.widget({
+                    widget: new MediaWidget({
+                      tag: (match[1] ?? "audio").toLowerCase() === "video" ? "video" : "audio",
+                      src: cached?.kind === "ok" ? cached.uri : null,
+                      error: cached?.kind === "error" ? cached.error : null,
+                      href
+                    }),
+                    side: 1
+                  }).range(baseOffset + end)
+                );
+              }
+            }
+
             pos = line.to + 1;
           }
         }
@@ -1436,6 +1673,44 @@ class ImageWidget extends WidgetType {
   }
 }
 
+class MediaWidget extends WidgetType {
+  constructor(private readonly opts: { tag: "audio" | "video"; src: string | null; error: string | null; href: string }) {
+    super();
+  }
+  eq(other: MediaWidget) {
+    return (
+      this.opts.tag === other.opts.tag &&
+      this.opts.src === other.opts.src &&
+      this.opts.error === other.opts.error &&
+      this.opts.href === other.opts.href
+    );
+  }
+  toDOM() {
+    const wrap = document.createElement("div");
+    wrap.className = "md-embed-media";
+    if (this.opts.error || !this.opts.src) {
+      const t = document.createElement("div");
+      t.textContent = this.opts.error
+        ? `Failed to load ${this.opts.tag}: ${this.opts.error === "not_found" ? "Not found" : this.opts.error}`
+        : `Loading ${this.opts.tag}…`;
+      t.style.opacity = "0.7";
+      t.style.fontSize = "12px";
+      wrap.appendChild(t);
+      return wrap;
+    }
+    const media = document.createElement(this.opts.tag);
+    media.controls = true;
+    media.preload = "metadata";
+    media.src = this.opts.src;
+    media.style.maxWidth = "100%";
+    wrap.appendChild(media);
+    return wrap;
+  }
+  ignoreEvent() {
+    return true;
+  }
+}
+
 let documentUri = "";
 let hoverTimer: number | null = null;
 let lastHoverHref: string | null = null;
@@ -1468,10 +1743,17 @@ function attachDomHandlers(view: EditorView) {
     if (!(e.ctrlKey || e.metaKey)) return;
     const pos = view.posAtCoords({ x: e.clientX, y: e.clientY });
     if (pos == null) return;
+    const footnote = findFootnoteAt(view, pos);
+    if (footnote) {
+      e.preventDefault();
+      jumpToFootnotePair(view, footnote);
+      return;
+    }
     const href = findLinkHrefAt(view, pos);
     if (!href) return;
     e.preventDefault();
-    post({ type: "OPEN_LINK", href, fromUri: documentUri });
+    // Ctrl/⌘+Alt+click opens to the side, like VS Code's "Open to the Side".
+    post({ type: "OPEN_LINK", href, fromUri: documentUri, toSide: e.altKey });
   });
 
   view.dom.addEventListener("mousemove", (e) => {
@@ -1490,7 +1772,7 @@ function attachDomHandlers(view: EditorView) {
           view.dispatch({ effects: setModifierHoverLinkEffect.of(null) });
         }
       } else {
-        const link = findLinkAt(view, pos);
+        const link = findFootnoteAt(view, pos) ?? findLinkAt(view, pos);
         if (!link) {
           if (lastModifierHoverRange) {
             lastModifierHoverRange = null;
@@ -1512,6 +1794,21 @@ function attachDomHandlers(view: EditorView) {
       hidePreview();
       return;
     }
+    const footnote = findFootnoteAt(view, pos);
+    if (footnote?.kind === "reference") {
+      // Footnote previews come from the document itself; no round trip to the extension.
+      const hoverKey = `^${footnote.key}`;
+      if (hoverKey === lastHoverHref) return;
+      lastHoverHref = hoverKey;
+      pendingPreviewRequestId = null;
+      const def = view.state.field(footnoteDefinitionsField).get(footnote.key);
+      const point = { x: e.clientX, y: e.clientY };
+      if (hoverTimer) window.clearTimeout(hoverTimer);
+      hoverTimer = window.setTimeout(() => {
+        showPreview(point.x, point.y, `[^${footnote.label}]`, def ? def.text : "This footnote is not defined.");
+      }, 250);
+      return;
+    }
     const href = findLinkHrefAt(view, pos);
     if (!href) {
       lastHoverHref = null;
@@ -1537,7 +1834,7 @@ function attachDomHandlers(view: EditorView) {
       view.dispatch({ effects: setModifierHoverLinkEffect.of(null) });
     }
     setModifierMode(false);
-    hidePreview();
+    hidePreviewSoon();
   });
 
   view.dom.addEventListener(
@@ -1547,30 +1844,26 @@ function attachDomHandlers(view: EditorView) {
       const dt = e.clipboardData;
       if (!dt) return;
       const items = [...dt.items];
-      const imageItem = items.find((it) => it.kind === "file" && it.type.startsWith("image/"));
-      if (!imageItem) return;
+      const fileItem =
+        items.find((it) => it.kind === "file" && it.type.startsWith("image/")) ?? items.find((it) => it.kind === "file");
+      // Word, Excel and PowerPoint put a picture of the copied text next to the text itself; the text wins.
+      // "Copy Image" in a browser gives an image with HTML but no plain text, and a file copied in the OS file
+      // manager gives its name as plain text without HTML, so both still save the file.
+      const isRichText = dt.types.includes("text/html") && dt.getData("text/plain").trim().length > 0;
+      if (!fileItem || isRichText) {
+        if (pasteAsLink(view, dt.getData("text/plain")) || pasteHtmlAsMarkdown(view, dt)) {
+          e.stopPropagation();
+          e.preventDefault();
+        }
+        return;
+      }
 
-      const file = imageItem.getAsFile();
+      const file = fileItem.getAsFile();
       if (!file) return;
       e.stopPropagation();
       e.preventDefault();
 
-    const bytes = new Uint8Array(await file.arrayBuffer());
-    const sel = view.state.selection.main;
-    const requestId = `att_${Date.now()}_${Math.random().toString(16).slice(2)}`;
-    showBanner("Saving image as an attachment…");
-    post({
-      type: "CREATE_ATTACHMENT",
-      requestId,
-      baseVersion: baseVersionForNextEdit(),
-      fromUri: documentUri,
-      insertFrom: sel.from,
-      insertTo: sel.to,
-      bytes,
-      filenameHint: file.name,
-      mime: file.type,
-      kind: "image"
-    });
+      void saveAttachment(view, file);
     },
     true
   );
@@ -1583,48 +1876,39 @@ function attachDomHandlers(view: EditorView) {
 
       const uriList = e.dataTransfer.getData("text/uri-list");
       if (uriList) {
-      const first = uriList.split(/\r?\n/).find((l) => l.trim().length > 0 && !l.startsWith("#"));
-      if (first) {
+      const targetUris = uriList
+        .split(/\r?\n/)
+        .map((l) => l.trim())
+        .filter((l) => l.length > 0 && !l.startsWith("#"));
+      if (targetUris.length > 0) {
         e.stopPropagation();
         e.preventDefault();
+        // Insert where the files were dropped; fall back to the selection when the point is outside the text.
         const sel = view.state.selection.main;
+        const dropPos = view.posAtCoords({ x: e.clientX, y: e.clientY });
         const requestId = `ref_${Date.now()}_${Math.random().toString(16).slice(2)}`;
-        showBanner("Inserting image reference…");
+        showBanner(targetUris.length > 1 ? `Inserting ${targetUris.length} links…` : "Inserting link…");
         post({
-          type: "INSERT_IMAGE_REFERENCE",
+          type: "INSERT_FILE_LINKS",
           requestId,
           baseVersion: baseVersionForNextEdit(),
           fromUri: documentUri,
-          insertFrom: sel.from,
-          insertTo: sel.to,
-          targetUri: first
+          insertFrom: dropPos ?? sel.from,
+          insertTo: dropPos ?? sel.to,
+          targetUris,
+          copyExternal: e.shiftKey
         });
         return;
       }
     }
 
     const files = e.dataTransfer.files ? [...e.dataTransfer.files] : [];
-    const file = files.find((f) => f.type.startsWith("image/"));
+    const file = files.find((f) => f.type.startsWith("image/")) ?? files[0];
     if (!file) return;
     e.stopPropagation();
     e.preventDefault();
 
-    const bytes = new Uint8Array(await file.arrayBuffer());
-    const sel = view.state.selection.main;
-    const requestId = `att_${Date.now()}_${Math.random().toString(16).slice(2)}`;
-    showBanner("Saving image as an attachment…");
-    post({
-      type: "CREATE_ATTACHMENT",
-      requestId,
-      baseVersion: baseVersionForNextEdit(),
-      fromUri: documentUri,
-      insertFrom: sel.from,
-      insertTo: sel.to,
-      bytes,
-      filenameHint: file.name,
-      mime: file.type,
-      kind: "image"
-    });
+    void saveAttachment(view, file);
     },
     true
   );
@@ -1640,6 +1924,209 @@ function attachDomHandlers(view: EditorView) {
   );
 }
 
+/**
+ * Asks the extension to save a pasted/dropped file as an attachment and insert the link.
+ * Images are optimized first as configured; the size limit applies to the bytes that would be saved.
+ */
+async function saveAttachment(view: EditorView, file: File) {
+  const isImage = file.type.startsWith("image/");
+  const limitMB = settings?.attachments.maxFileSizeMB ?? 0;
+  const tooLarge = (size: number) => limitMB > 0 && size > limitMB * 1024 * 1024;
+  const rejectSize = (name: string) =>
+    showBanner(`Failed to insert: ${name} is larger than ${limitMB} MB (quench.attachments.maxFileSizeMB).`);
+  // Other files are not read at all when they are too large; images usually shrink when they are processed.
+  if (!isImage && tooLarge(file.size)) {
+    rejectSize(file.name);
+    return;
+  }
+  showBanner(isImage ? "Saving image as an attachment…" : `Saving ${file.name} as an attachment…`);
+  let processed: ProcessedImage;
+  try {
+    processed =
+      isImage && settings
+        ? await processImage(file, file.name, settings.attachments.images)
+        : { bytes: new Uint8Array(await file.arrayBuffer()), mime: file.type, filenameHint: file.name };
+  } catch (err) {
+    showBanner(`Image processing failed (${err instanceof Error ? err.message : String(err)}); saving the original.`);
+    processed = { bytes: new Uint8Array(await file.arrayBuffer()), mime: file.type, filenameHint: file.name };
+  }
+  if (tooLarge(processed.bytes.length)) {
+    rejectSize(processed.filenameHint);
+    return;
+  }
+  // Read only now: the note may have been edited while the image was processed.
+  const sel = view.state.selection.main;
+  post({
+    type: "CREATE_ATTACHMENT",
+    requestId: `att_${Date.now()}_${Math.random().toString(16).slice(2)}`,
+    baseVersion: baseVersionForNextEdit(),
+    fromUri: documentUri,
+    insertFrom: sel.from,
+    insertTo: sel.to,
+    bytes: processed.bytes,
+    filenameHint: processed.filenameHint,
+    mime: processed.mime,
+    kind: isImage ? "image" : "file"
+  });
+}
+
+/**
+ * Smart paste of text: a URL over a selection becomes `[selection](url)`; a file path, `file://` URI or
+ * `path:line` is handed to the extension, which links it if the file exists. Returns whether it took over the paste.
+ * Code is left alone; `Quench: Paste as Plain Text` bypasses all of this.
+ */
+function pasteAsLink(view: EditorView, text: string): boolean {
+  const sel = view.state.selection.main;
+  if (text.length === 0 || isInsideCode(view.state, sel.from)) return false;
+  const selectedText = view.state.sliceDoc(sel.from, sel.to);
+
+  if (isPastedUrl(text)) {
+    if (sel.empty || selectedText.includes("\n") || isPastedUrl(selectedText)) return false;
+    const insert = `[${selectedText}](${text.trim()})`;
+    view.dispatch({
+      changes: { from: sel.from, to: sel.to, insert },
+      selection: EditorSelection.cursor(sel.from + insert.length),
+      userEvent: "input.paste"
+    });
+    return true;
+  }
+
+  if (!parseFileReference(text)) return false;
+  post({
+    type: "PASTE_FILE_LINK",
+    baseVersion: baseVersionForNextEdit(),
+    fromUri: documentUri,
+    insertFrom: sel.from,
+    insertTo: sel.to,
+    text,
+    selectedText
+  });
+  return true;
+}
+
+/**
+ * Rich clipboard content (web pages, Word, Google Docs) is pasted as Markdown converted from its `text/html`.
+ * Falls back to the browser's plain-text paste inside code, for code copied from VS Code, for a bare URL and when
+ * the conversion adds no formatting. `Quench: Paste as Plain Text` always pastes the text as it is.
+ */
+function pasteHtmlAsMarkdown(view: EditorView, dt: DataTransfer): boolean {
+  const html = dt.getData("text/html");
+  const text = dt.getData("text/plain");
+  const sel = view.state.selection.main;
+  if (!html || dt.types.includes("vscode-editor-data") || isPastedUrl(text) || isInsideCode(view.state, sel.from)) {
+    return false;
+  }
+  const markdown = htmlToMarkdown(html);
+  const flatten = (s: string) => s.replace(/\\(?=[^\w\s])/g, "").replace(/\s+/g, " ").trim();
+  if (!markdown || flatten(markdown) === flatten(text)) return false;
+
+  view.dispatch({
+    changes: { from: sel.from, to: sel.to, insert: markdown },
+    selection: EditorSelection.cursor(sel.from + markdown.length),
+    userEvent: "input.paste"
+  });
+  return true;
+}
+
+function isInsideCode(state: EditorState, pos: number): boolean {
+  let inCode = false;
+  syntaxTree(state).iterate({
+    from: pos,
+    to: pos,
+    enter: (node) => {
+      if (/^(FencedCode|CodeBlock|InlineCode)$/.test(node.name)) inCode = true;
+    }
+  });
+  return inCode;
+}
+
+const pendingLinkCompletions = new Map<string, (items: LinkCompletionItem[]) => void>();
+
+function requestLinkCompletions(kind: "path" | "heading", pathPart: string, imagesOnly: boolean): Promise<LinkCompletionItem[]> {
+  const requestId = `comp_${Date.now()}_${Math.random().toString(16).slice(2)}`;
+  return new Promise((resolve) => {
+    // Never leave the completion popup waiting on a lost reply.
+    const timer = window.setTimeout(() => {
+      pendingLinkCompletions.delete(requestId);
+      resolve([]);
+    }, 3000);
+    pendingLinkCompletions.set(requestId, (items) => {
+      window.clearTimeout(timer);
+      resolve(items);
+    });
+    post({ type: "REQUEST_LINK_COMPLETIONS", requestId, fromUri: documentUri, kind, pathPart, imagesOnly });
+  });
+}
+
+/**
+ * Completes the href of `[label](...)` / `![alt](...)` while typing:
+ * paths after `(`, heading slugs after `#` (the current note for `](#`).
+ */
+async function linkCompletionSource(context: CompletionContext): Promise<CompletionResult | null> {
+  const line = context.state.doc.lineAt(context.pos);
+  const before = line.text.slice(0, context.pos - line.from);
+  const m = /(!?)\[[^\]]*\]\(([^()\s#]*)(#[^()\s]*)?$/.exec(before);
+  if (!m) return null;
+  const imagesOnly = m[1] === "!";
+  const pathPart = m[2] ?? "";
+  const fragment = m[3];
+  if (/^[a-z][a-z0-9+.-]*:/i.test(pathPart)) return null;
+
+  if (fragment !== undefined) {
+    if (imagesOnly) return null;
+    const items = await requestLinkCompletions("heading", pathPart, false);
+    if (context.aborted || items.length === 0) return null;
+    return {
+      from: context.pos - fragment.length + 1,
+      options: items.map((i) => ({ label: i.label, detail: i.detail, type: "constant" })),
+      validFor: /^[^()\s#]*$/
+    };
+  }
+
+  const items = await requestLinkCompletions("path", pathPart, imagesOnly);
+  if (context.aborted || items.length === 0) return null;
+  return {
+    from: context.pos - pathPart.length,
+    options: items.map((i) => ({ label: i.label, detail: i.detail, type: i.kind === "image" ? "variable" : "text" })),
+    validFor: /^[^()\s#]*$/
+  };
+}
+
+type FootnoteAt = { kind: "reference" | "definition"; label: string; key: string; from: number; to: number };
+
+/** The footnote reference `[^label]`, or the label of a `[^label]:` definition, at `pos`. */
+function findFootnoteAt(view: EditorView, pos: number): FootnoteAt | null {
+  const line = view.state.doc.lineAt(pos);
+  const offset = pos - line.from;
+  if (isInsideCode(view.state, pos)) return null;
+  const def = parseFootnoteDefinition(line.text);
+  if (def && offset >= def.from && offset <= def.to) {
+    return { kind: "definition", label: def.label, key: normalizeReferenceLabel(def.label), from: line.from + def.from, to: line.from + def.to };
+  }
+  const ref = findFootnoteReferences(line.text).find((r) => offset >= r.from && offset <= r.to);
+  if (!ref) return null;
+  return { kind: "reference", label: ref.label, key: ref.key, from: line.from + ref.from, to: line.from + ref.to };
+}
+
+/**
+ * Ctrl/⌘+click: from a reference to its definition, from a definition back to the first reference.
+ * Undefined or unused footnotes have nowhere to go.
+ */
+function jumpToFootnotePair(view: EditorView, footnote: FootnoteAt) {
+  if (footnote.kind === "reference") {
+    const def = view.state.field(footnoteDefinitionsField).get(footnote.key);
+    if (def) revealLine(def.line, def.to + 2);
+    return;
+  }
+  const refs: { line: number; column: number }[] = [];
+  forEachLineOutsideFences([...view.state.doc.iterLines()], (text, line) => {
+    const ref = findFootnoteReferences(text).find((r) => r.key === footnote.key);
+    if (ref) refs.push({ line, column: ref.to });
+  });
+  const first = refs[0];
+  if (first) revealLine(first.line, first.column);
+}
+
 function findLinkHrefAt(view: EditorView, pos: number): string | null {
   return findLinkAt(view, pos)?.href ?? null;
 }
@@ -1723,6 +2210,18 @@ function findLinkAt(view: EditorView, pos: number): { href: string; from: number
     return { href, from: line.from + start, to: line.from + end };
   }
 
+  // Reference-style links: [text][ref] / [ref][] / [ref], resolved through `[ref]: url` definitions.
+  const definitions = view.state.field(linkDefinitionsField, false);
+  if (definitions) {
+    for (const ref of findReferenceLinks(text, (key) => definitions.has(key))) {
+      if (!within(ref.from, ref.to)) continue;
+      const def = definitions.get(ref.key);
+      if (!def) return null; // undefined reference (reported by link diagnostics)
+      if (within(ref.textFrom, ref.textTo)) return { href: def.href, from: line.from + ref.textFrom, to: line.from + ref.textTo };
+      return { href: def.href, from: line.from + ref.from, to: line.from + ref.to };
+    }
+  }
+
   // HTML image tag (GitHub-compatible sizing): <img src="..." ...>
   for (const match of text.matchAll(/<img\b[^>]*>/gi)) {
     const start = match.index ?? -1;
@@ -1809,6 +2308,10 @@ const handleMessageEvent = (event: MessageEvent) => {
       handleRequestSelection(msg.requestId);
       break;
     }
+    case "ATTACH_FILE": {
+      if (view) void saveAttachment(view, new File([new Uint8Array(msg.bytes)], msg.filename, { type: msg.mime }));
+      break;
+    }
     case "CSS_UPDATED": {
       applyCss(msg.cssText);
       break;
@@ -1828,7 +2331,7 @@ const handleMessageEvent = (event: MessageEvent) => {
     case "PREVIEW_RESULT": {
       if (!lastHoverPoint) break;
       if (pendingPreviewRequestId && msg.requestId !== pendingPreviewRequestId) break;
-      showPreview(lastHoverPoint.x, lastHoverPoint.y, msg.title, msg.text);
+      showPreview(lastHoverPoint.x, lastHoverPoint.y, msg.title, msg.text, msg.html);
       break;
     }
     case "RESOURCE_URI_RESULT": {
@@ -1842,12 +2345,29 @@ const handleMessageEvent = (event: MessageEvent) => {
     }
     case "CREATE_ATTACHMENT_RESULT": {
       if (!msg.ok) {
-        showBanner(`Failed to attach image: ${msg.error ?? "unknown"}`);
+        showBanner(`Failed to insert: ${msg.error ?? "unknown"}`);
       } else {
         hideBanner();
       }
       break;
     }
+    case "LINK_COMPLETIONS_RESULT": {
+      const resolve = pendingLinkCompletions.get(msg.requestId);
+      if (!resolve) break;
+      pendingLinkCompletions.delete(msg.requestId);
+      resolve(msg.items);
+      break;
+    }
+    case "REVEAL": {
+      revealLine(msg.line, msg.column);
+      break;
+    }
+    case "LINK_DIAGNOSTICS": {
+      // Offsets are only valid for the exact version the extension checked.
+      if (!view || msg.version !== lastConfirmedVersion || pendingRequestIds.length > 0) break;
+      view.dispatch({ effects: setLinkDiagnosticsEffect.of(msg.diagnostics) });
+      break;
+    }
     case "ERROR": {
       showBanner(msg.detail ? `${msg.message}: ${msg.detail}` : msg.message);
       break;
@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { AttachmentHashIndex } from "../src/extension/services/AttachmentHashIndex";
+import { emitFileEvent, fileUri, resetWorkspace, setFile } from "./fakes/vscode";
+
+describe("AttachmentHashIndex", () => {
+  const bytes = new Uint8Array([1, 2, 3]);
+  let index: AttachmentHashIndex;
+
+  beforeEach(() => {
+    resetWorkspace("notes");
+    index = new AttachmentHashIndex();
+  });
+
+  afterEach(() => index.dispose());
+
+  it("finds a file with the same content whatever the case of its extension", async () => {
+    setFile("/ws/notes/assets/other.png", new Uint8Array([1, 2, 4]));
+    setFile("/ws/notes/assets/Photo.PNG", bytes);
+    assert.equal((await index.findIdentical(bytes, "png"))?.path, "/ws/notes/assets/Photo.PNG");
+    assert.equal((await index.findIdentical(bytes, "PNG", fileUri("/ws/notes/assets")))?.path, "/ws/notes/assets/Photo.PNG");
+    assert.equal(await index.findIdentical(bytes, "png", fileUri("/ws/notes/other")), undefined);
+  });
+
+  it("lists the folder again once a file is added", async () => {
+    assert.equal(await index.findIdentical(bytes, "jpg"), undefined);
+    const added = setFile("/ws/notes/shot.JPG", bytes);
+    emitFileEvent("create", added);
+    assert.equal((await index.findIdentical(bytes, "jpg"))?.path, "/ws/notes/shot.JPG");
+  });
+});
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  expandAttachmentTemplate,
+  templatePromptDefault,
+  templateStaticPrefix,
+  validateAttachmentTemplate
+} from "../src/extension/services/AttachmentNameService";
+
+const now = new Date(2024, 2, 5, 9, 7, 3);
+const SETTING = "quench.attachments.nameTemplate";
+
+describe("expandAttachmentTemplate", () => {
+  it("expands date, time, note and counter tokens", () => {
+    assert.equal(
+      expandAttachmentTemplate("{note}/{date:YYYY-MM-DD}-{time}-{counter:3}", { note: "My Note", now, counter: 7 }, SETTING),
+      "My-Note/2024-03-05-090703-007"
+    );
+  });
+
+  it("hashes the content with a configurable length", () => {
+    const bytes = new TextEncoder().encode("abc");
+    assert.equal(expandAttachmentTemplate("{hash}", { note: "n", now, bytes }, SETTING), "ba7816bf");
+    assert.equal(expandAttachmentTemplate("{hash:12}", { note: "n", now, bytes }, SETTING), "ba7816bf8f01");
+  });
+
+  it("drops segments left empty by missing values and makes values path-safe", () => {
+    assert.equal(expandAttachmentTemplate("{heading}/{originalName}", { note: "n", now, originalName: "a/b:c" }, SETTING), "a-b-c");
+    assert.equal(expandAttachmentTemplate("img-{prompt:shot}", { note: "n", now }, SETTING), "img-shot");
+  });
+
+  it("rejects unknown tokens and invalid characters", () => {
+    assert.throws(() => expandAttachmentTemplate("{nope}", { note: "n", now }, SETTING), /Unknown token \{nope\}/);
+    assert.throws(() => validateAttachmentTemplate("a:b", SETTING), /not allowed/);
+  });
+
+  it("never climbs out of the attachment folder", () => {
+    assert.equal(expandAttachmentTemplate("../{note}/./x", { note: "..", now }, SETTING), "x");
+  });
+});
+
+describe("template helpers", () => {
+  it("find the static folder prefix and the prompt default", () => {
+    assert.equal(templateStaticPrefix("assets/img/{note}/{counter}"), "assets/img");
+    assert.equal(templateStaticPrefix("{note}"), "");
+    assert.equal(templatePromptDefault("{note}-{prompt:diagram}"), "diagram");
+  });
+});
@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { prepareImageForTextEditor } from "../src/extension/services/AttachmentService";
+import { getQuenchSettings } from "../src/extension/services/Settings";
+import { fileUri, resetWorkspace, setConfig } from "./fakes/vscode";
+
+function jpeg(...segments: number[][]): Uint8Array {
+  const scan = [0xff, 0xda, 0, 3, 1, 9, 9, 0xff, 0xd9];
+  return new Uint8Array([0xff, 0xd8, ...segments.flat(), ...scan]);
+}
+
+function app1Exif(orientation: number): number[] {
+  // "Exif\0\0", big-endian TIFF header, one IFD entry: Orientation (0x0112), SHORT, 1 value.
+  const payload = [0x45, 0x78, 0x69, 0x66, 0, 0, 0x4d, 0x4d, 0, 0x2a, 0, 0, 0, 8, 0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, orientation, 0, 0, 0, 0, 0, 0];
+  const length = payload.length + 2;
+  return [0xff, 0xe1, length >> 8, length & 0xff, ...payload];
+}
+
+describe("prepareImageForTextEditor", () => {
+  const note = fileUri("/ws/notes/a.md");
+
+  beforeEach(() => resetWorkspace("notes"));
+
+  it("strips metadata without re-encoding", () => {
+    const prepared = prepareImageForTextEditor(jpeg(app1Exif(1)), "photo.JPG", getQuenchSettings(note).attachments);
+    assert.deepEqual([...prepared.bytes], [...jpeg()]);
+    assert.equal(prepared.skippedResize, false);
+  });
+
+  it("keeps the EXIF of a rotated JPEG, which only re-encoding could drop", () => {
+    const rotated = jpeg(app1Exif(6));
+    assert.equal(prepareImageForTextEditor(rotated, "photo.jpg", getQuenchSettings(note).attachments).bytes, rotated);
+  });
+
+  it("keeps metadata when stripping is off and reports skipped conversion or resizing", () => {
+    setConfig("quench.attachments.images.stripMetadata", false);
+    setConfig("quench.attachments.images.maxWidth", 800);
+    const input = jpeg(app1Exif(1));
+    const prepared = prepareImageForTextEditor(input, "photo.jpg", getQuenchSettings(note).attachments);
+    assert.equal(prepared.bytes, input);
+    assert.equal(prepared.skippedResize, true);
+    assert.equal(prepareImageForTextEditor(input, "anim.gif", getQuenchSettings(note).attachments).skippedResize, false);
+  });
+});
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { planFootnoteInsertion, renumberFootnotes } from "../src/extension/services/FootnoteService";
+import { applyReplacements } from "./helpers";
+
+describe("renumberFootnotes", () => {
+  it("numbers footnotes in order of first reference, then unreferenced definitions", () => {
+    const md = "B[^b] A[^a] B again[^b]\n\n[^z]: unused\n[^a]: A\n[^b]: B\n";
+    const result = renumberFootnotes(md);
+    assert.equal(applyReplacements(md, result.replacements), "B[^1] A[^2] B again[^1]\n\n[^3]: unused\n[^2]: A\n[^1]: B\n");
+    assert.equal(result.count, 3);
+  });
+
+  it("changes nothing when labels are already in order", () => {
+    assert.deepEqual(renumberFootnotes("x[^1] y[^2]\n\n[^1]: a\n[^2]: b\n").replacements, []);
+  });
+});
+
+describe("planFootnoteInsertion", () => {
+  it("inserts the next label and starts a definition block after a blank line", () => {
+    const md = "Some text[^1].\n\nMore text.\n\n[^1]: First\n";
+    const at = md.indexOf("More text.") + "More text.".length;
+    const plan = planFootnoteInsertion(md, at);
+    const out = applyReplacements(md, plan.replacements);
+    assert.equal(plan.label, "2");
+    assert.equal(out, "Some text[^1].\n\nMore text.[^2]\n\n[^1]: First\n[^2]: \n");
+    assert.equal(out.slice(0, plan.definitionEnd).endsWith("[^2]: "), true);
+  });
+
+  it("appends at the end of a note without footnotes", () => {
+    const md = "Last line";
+    const plan = planFootnoteInsertion(md, md.length);
+    assert.equal(applyReplacements(md, plan.replacements), "Last line[^1]\n\n[^1]: \n");
+    assert.equal(plan.definitionEnd, "Last line[^1]\n\n[^1]: ".length);
+  });
+});
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractHeadings, extractLinkTargets } from "../src/extension/services/HeadingService";
+
+describe("extractHeadings", () => {
+  it("slugs headings in document order and prefers an explicit {#id}", () => {
+    const md = ["# Intro", "", "## Setup {#install}", "", "## Intro", "", "```", "# not a heading", "```"].join("\n");
+    assert.deepEqual(extractHeadings(md, "github"), [
+      { level: 1, text: "Intro", slug: "intro", startLine: 0 },
+      { level: 2, text: "Setup", slug: "install", startLine: 2 },
+      { level: 2, text: "Intro", slug: "intro-1", startLine: 4 }
+    ]);
+  });
+});
+
+describe("extractLinkTargets", () => {
+  it("merges headings and HTML anchors by line", () => {
+    const md = ["# Title", "", '<a id="details"></a>Details here', "", "## End"].join("\n");
+    assert.deepEqual(extractLinkTargets(md, "github"), [
+      { slug: "title", line: 0, label: "Title", level: 1 },
+      { slug: "details", line: 2, label: "Details here" },
+      { slug: "end", line: 4, label: "End", level: 2 }
+    ]);
+  });
+});
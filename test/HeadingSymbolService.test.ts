@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { HeadingSymbolService } from "../src/extension/services/HeadingSymbolService";
+import { WorkspaceIndex } from "../src/extension/services/WorkspaceIndex";
+import { registeredSymbolProviders, resetWorkspace, setConfig, setExtensionEnabled } from "./fakes/vscode";
+
+describe("HeadingSymbolService", () => {
+  const builtin = "vscode.markdown-language-features";
+  let index: WorkspaceIndex;
+  let service: HeadingSymbolService;
+
+  beforeEach(() => {
+    resetWorkspace("notes");
+    index = new WorkspaceIndex(undefined);
+  });
+
+  afterEach(() => {
+    service.dispose();
+    index.dispose();
+  });
+
+  it("registers its providers by default, next to the built-in Markdown extension", () => {
+    setExtensionEnabled(builtin, true);
+    service = new HeadingSymbolService(index);
+    assert.deepEqual(registeredSymbolProviders(), ["document", "workspace"]);
+  });
+
+  it("registers them only while the built-in extension is disabled in auto mode", () => {
+    setConfig("quench.symbols.headings", "auto");
+    setExtensionEnabled(builtin, true);
+    service = new HeadingSymbolService(index);
+    assert.deepEqual(registeredSymbolProviders(), []);
+
+    setExtensionEnabled(builtin, false);
+    assert.deepEqual(registeredSymbolProviders(), ["document", "workspace"]);
+
+    setExtensionEnabled(builtin, true);
+    assert.deepEqual(registeredSymbolProviders(), []);
+  });
+
+  it("follows changes to quench.symbols.headings", () => {
+    setExtensionEnabled(builtin, true);
+    service = new HeadingSymbolService(index);
+
+    setConfig("quench.symbols.headings", "never");
+    assert.deepEqual(registeredSymbolProviders(), []);
+
+    setConfig("quench.symbols.headings", "always");
+    assert.deepEqual(registeredSymbolProviders(), ["document", "workspace"]);
+
+    service.dispose();
+    assert.deepEqual(registeredSymbolProviders(), []);
+  });
+});
@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { LinkCompletionService } from "../src/extension/services/LinkCompletionService";
+import { WorkspaceIndex } from "../src/extension/services/WorkspaceIndex";
+import { fileUri, resetWorkspace, setConfig, setFile } from "./fakes/vscode";
+
+describe("LinkCompletionService", () => {
+  const note = fileUri("/ws/notes/a.md");
+  let index: WorkspaceIndex;
+  let service: LinkCompletionService;
+
+  beforeEach(async () => {
+    resetWorkspace("notes");
+    setFile("/ws/notes/a.md", "# A\n");
+    setFile("/ws/notes/b.md", "# B\n");
+    setFile("/ws/notes/img/shot.png", new Uint8Array([1]));
+    setFile("/ws/notes/node_modules/pkg/logo.png", new Uint8Array([2]));
+    setFile("/ws/notes/build/chart.svg", new Uint8Array([3]));
+    setFile("/ws/notes/.gitignore", "build/\n");
+    index = new WorkspaceIndex(undefined);
+    await index.initialize();
+    service = new LinkCompletionService(index);
+  });
+
+  afterEach(() => {
+    service.dispose();
+    index.dispose();
+  });
+
+  const labels = async (imagesOnly: boolean) => (await service.getPathCompletions(note, imagesOnly)).map((i) => i.label);
+
+  it("lists other notes, or images, within the index scope", async () => {
+    assert.deepEqual(await labels(false), ["./b.md"]);
+    assert.deepEqual(await labels(true), ["./img/shot.png"]);
+  });
+
+  it("lists images again after the index is rescanned for a scope change", async () => {
+    assert.deepEqual(await labels(true), ["./img/shot.png"]);
+    setConfig("quench.index.exclude", ["**/node_modules/**", "img/**"]);
+    await index.rebuild();
+    assert.deepEqual(await labels(true), []);
+  });
+});
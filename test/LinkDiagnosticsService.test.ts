@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { LinkDiagnosticsService } from "../src/extension/services/LinkDiagnosticsService";
+import { WorkspaceIndex } from "../src/extension/services/WorkspaceIndex";
+import { emitFileEvent, fileUri, languages, resetWorkspace, setFile, workspace } from "./fakes/vscode";
+
+type Collection = ReturnType<typeof languages.createDiagnosticCollection>;
+
+describe("LinkDiagnosticsService", () => {
+  let index: WorkspaceIndex;
+  let service: LinkDiagnosticsService;
+  let collection: Collection;
+
+  beforeEach(() => {
+    resetWorkspace("notes");
+    const create = languages.createDiagnosticCollection;
+    languages.createDiagnosticCollection = () => (collection = create());
+    try {
+      index = new WorkspaceIndex(undefined);
+      service = new LinkDiagnosticsService(index);
+    } finally {
+      languages.createDiagnosticCollection = create;
+    }
+  });
+
+  afterEach(() => {
+    service.dispose();
+    index.dispose();
+  });
+
+  function refreshed(): Promise<void> {
+    return new Promise((resolve) => {
+      const d = service.onDidRefresh(() => {
+        d.dispose();
+        resolve();
+      });
+    });
+  }
+
+  function codes(path: string): string[] {
+    return (collection.entries.get(`file://${path}`) ?? []).map((d) => d.code ?? "");
+  }
+
+  it("reports missing files, missing headings and undefined references", async () => {
+    setFile("/ws/notes/a.md", "[b](b.md#intro) [c](c.md) [x][nope] [here](#nowhere)\n");
+    setFile("/ws/notes/b.md", "# Intro\n");
+    const done = refreshed();
+    await index.initialize();
+    await done;
+
+    assert.deepEqual(codes("/ws/notes/a.md"), ["undefined-reference", "missing-file", "missing-heading"]);
+    assert.deepEqual(codes("/ws/notes/b.md"), []);
+  });
+
+  it("re-checks a saved note and the notes linking to it, and nothing else", async () => {
+    setFile("/ws/notes/a.md", "[b](b.md#intro)\n");
+    const b = setFile("/ws/notes/b.md", "# Intro\n");
+    setFile("/ws/notes/d.md", "[x](x.md)\n");
+    let done = refreshed();
+    await index.initialize();
+    await done;
+    assert.deepEqual(codes("/ws/notes/d.md"), ["missing-file"]);
+
+    // x.md appears without a watcher event: d.md is not affected by the save, so it is not re-checked.
+    setFile("/ws/notes/x.md", "");
+    setFile("/ws/notes/b.md", "# Outro\n");
+    done = refreshed();
+    emitFileEvent("change", b);
+    await done;
+
+    assert.deepEqual(codes("/ws/notes/a.md"), ["missing-heading"]);
+    assert.deepEqual(codes("/ws/notes/d.md"), ["missing-file"]);
+  });
+
+  it("re-checks the notes linking to an attachment when it is created or deleted", async () => {
+    setFile("/ws/notes/a.md", "![shot](img/shot.png) [spec](docs/spec.pdf)\n");
+    const docs = setFile("/ws/notes/docs/spec.pdf", "pdf");
+    let done = refreshed();
+    await index.initialize();
+    await done;
+    assert.deepEqual(codes("/ws/notes/a.md"), ["missing-file"]);
+
+    done = refreshed();
+    emitFileEvent("create", setFile("/ws/notes/img/shot.png", "png"));
+    await done;
+    assert.deepEqual(codes("/ws/notes/a.md"), []);
+
+    // Deleting a folder fires one event for the folder itself.
+    await workspace.fs.delete(docs);
+    done = refreshed();
+    emitFileEvent("delete", fileUri("/ws/notes/docs"));
+    await done;
+    assert.deepEqual(codes("/ws/notes/a.md"), ["missing-file"]);
+  });
+
+  it("re-indexes a save once, however many change events it fires", async () => {
+    const b = setFile("/ws/notes/b.md", "# Intro\n");
+    await index.initialize();
+    const updates: unknown[] = [];
+    index.onDidUpdate((changed) => updates.push(changed));
+
+    setFile("/ws/notes/b.md", "# Outro\n");
+    emitFileEvent("change", b);
+    emitFileEvent("change", b);
+    await index.whenIdle();
+
+    assert.deepEqual(updates, [[b]]);
+    assert.equal(index.getNote(b)?.title, "Outro");
+  });
+});
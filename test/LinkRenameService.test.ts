@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { LinkRenameService } from "../src/extension/services/LinkRenameService";
+import { WorkspaceIndex } from "../src/extension/services/WorkspaceIndex";
+import { emitWillRenameFiles, fileUri, resetWorkspace, setConfig, setFile, window } from "./fakes/vscode";
+
+describe("LinkRenameService", () => {
+  let index: WorkspaceIndex;
+  let service: LinkRenameService;
+
+  beforeEach(async () => {
+    resetWorkspace("notes");
+    setFile("/ws/notes/a.md", "See [b](b.md) and ![img](img/b.png).\n");
+    setFile("/ws/notes/b.md", "# Beta\n");
+    index = new WorkspaceIndex(undefined);
+    await index.initialize();
+    service = new LinkRenameService(index);
+  });
+
+  afterEach(() => {
+    service.dispose();
+    index.dispose();
+  });
+
+  const renameB = () => emitWillRenameFiles([{ oldUri: fileUri("/ws/notes/b.md"), newUri: fileUri("/ws/notes/sub/b.md") }]);
+
+  it("marks the link updates as needing confirmation instead of asking in a dialog", async () => {
+    const shown: unknown[] = [];
+    const original = window.showInformationMessage;
+    window.showInformationMessage = async (...args: unknown[]) => {
+      shown.push(args);
+      return undefined;
+    };
+    try {
+      const [edit] = await renameB();
+      assert.deepEqual(
+        edit?.entries.map((e) => [e.uri.path, e.newText, e.metadata]),
+        [["/ws/notes/a.md", "sub/b.md", { needsConfirmation: true, label: "Update Markdown links" }]]
+      );
+      assert.deepEqual(shown, []);
+    } finally {
+      window.showInformationMessage = original;
+    }
+  });
+
+  it("applies the updates directly in always mode and not at all in never mode", async () => {
+    setConfig("quench.links.updateOnRename", "always");
+    const [edit] = await renameB();
+    assert.deepEqual(
+      edit?.entries.map((e) => [e.newText, e.metadata]),
+      [["sub/b.md", undefined]]
+    );
+
+    setConfig("quench.links.updateOnRename", "never");
+    assert.deepEqual(await renameB(), []);
+  });
+});
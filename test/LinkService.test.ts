@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+  computeMarkdownLinkPath,
+  extractMarkdownLinks,
+  findUndefinedReferences,
+  parseLineFragment,
+  resolveHrefToUri
+} from "../src/extension/services/LinkService";
+import { fileUri, resetWorkspace, setConfig } from "./fakes/vscode";
+
+function hrefs(markdown: string): string[] {
+  return extractMarkdownLinks(markdown).map((l) => `${l.kind}:${l.href}`);
+}
+
+describe("extractMarkdownLinks", () => {
+  it("finds inline links, images, <img> and definitions with the href columns", () => {
+    const text = 'A [doc](notes/a.md) ![pic](img.png) <img alt="x" src="b.png">';
+    const links = extractMarkdownLinks(`${text}\n[ref]: ./c.md`);
+    assert.deepEqual(
+      links.map((l) => [l.kind, l.href, l.lineText.slice(l.hrefFrom, l.hrefTo)]),
+      [
+        ["link", "notes/a.md", "notes/a.md"],
+        ["image", "img.png", "img.png"],
+        ["html-image", "b.png", "b.png"],
+        ["definition", "./c.md", "./c.md"]
+      ]
+    );
+  });
+
+  it("skips fenced code blocks", () => {
+    assert.deepEqual(hrefs("```\n[a](a.md)\n```\n[b](b.md)"), ["link:b.md"]);
+  });
+
+  it("skips inline code spans and indented code blocks", () => {
+    assert.deepEqual(hrefs('Use `[a](a.md)` or `<img src="x.png">`.\n\n    [b](b.md)\n\n[c](c.md)'), ["link:c.md"]);
+  });
+
+  it("returns the bare destination of titled and angle-bracketed links", () => {
+    const links = extractMarkdownLinks('[a](a.md "Title") ![b](<assets/My Image.png>)');
+    assert.deepEqual(
+      links.map((l) => [l.href, l.lineText.slice(l.hrefFrom, l.hrefTo)]),
+      [
+        ["a.md", "a.md"],
+        ["assets/My Image.png", "assets/My Image.png"]
+      ]
+    );
+  });
+});
+
+describe("findUndefinedReferences", () => {
+  it("reports full and collapsed references without a definition", () => {
+    assert.deepEqual(findUndefinedReferences("[a][nope] [b][] [ok][d]\n\n[d]: d.md"), [
+      { label: "nope", line: 0, from: 0, to: 9 },
+      { label: "b", line: 0, from: 10, to: 15 }
+    ]);
+  });
+
+  it("ignores references in inline code and indented code", () => {
+    assert.deepEqual(findUndefinedReferences("`[a][nope]`\n\n    [b][nope]\n"), []);
+  });
+});
+
+describe("parseLineFragment", () => {
+  it("reads GitHub-style line fragments as 0-based positions", () => {
+    assert.deepEqual({ ...parseLineFragment("L12C5") }, { line: 11, character: 4 });
+    assert.deepEqual({ ...parseLineFragment("L3-L9") }, { line: 2, character: 0 });
+    assert.equal(parseLineFragment("setup"), undefined);
+  });
+});
+
+describe("link paths", () => {
+  beforeEach(() => resetWorkspace("notes", "docs"));
+
+  it("writes relative, root-relative and folder-qualified paths", () => {
+    const from = fileUri("/ws/notes/daily/today.md");
+    const to = fileUri("/ws/notes/assets/a.png");
+    assert.equal(computeMarkdownLinkPath(from, to, "relative"), "../assets/a.png");
+    assert.equal(computeMarkdownLinkPath(from, to, "workspaceRoot"), "/assets/a.png");
+    assert.equal(computeMarkdownLinkPath(from, fileUri("/ws/docs/x.md"), "folderQualified"), "/docs/x.md");
+    assert.throws(() => computeMarkdownLinkPath(from, fileUri("/ws/docs/x.md"), "workspaceRoot"), /outside the workspace folder "notes"/);
+  });
+
+  it("percent-encodes what would break a bare destination and keeps other names readable", () => {
+    const from = fileUri("/ws/notes/a.md");
+    assert.equal(
+      computeMarkdownLinkPath(from, fileUri("/ws/notes/My Shot (1) #2?.png"), "relative"),
+      "./My%20Shot%20%281%29%20%232%3F.png"
+    );
+    assert.equal(computeMarkdownLinkPath(from, fileUri("/ws/notes/100%/会議メモ.md"), "relative"), "./100%25/会議メモ.md");
+    assert.deepEqual(extractMarkdownLinks(`[x](${computeMarkdownLinkPath(from, fileUri("/ws/notes/a (b).md"))})`).map((l) => l.href), [
+      "./a%20%28b%29.md"
+    ]);
+  });
+
+  it("resolves relative, root-relative and folder-qualified hrefs", () => {
+    const from = fileUri("/ws/notes/daily/today.md");
+    const resolve = (href: string) => {
+      const r = resolveHrefToUri(from, href);
+      return r === "external" ? r : `${r.targetUri.path}${r.fragment !== undefined ? `#${r.fragment}` : ""}`;
+    };
+    assert.equal(resolve("../a.md#intro"), "/ws/notes/a.md#intro");
+    assert.equal(resolve("/b.md"), "/ws/notes/b.md");
+    assert.equal(resolve("#top"), "/ws/notes/daily/today.md#top");
+    const schemes = ["https://example.com", "mailto:a@example.com", "data:image/png;base64,AA", "vscode:extension/x.y", "file:///a.md", "FTP://h/a"];
+    for (const href of schemes) assert.equal(resolve(href), "external", href);
+    assert.notEqual(resolve("C:/notes/a.md"), "external");
+    assert.equal(resolve("My%20Shot%20%281%29%20%232.png#a%20b"), "/ws/notes/daily/My Shot (1) #2.png#a%20b");
+    assert.equal(resolve("100% done.md"), "/ws/notes/daily/100% done.md");
+    setConfig("quench.links.pathStyle", "folderQualified");
+    assert.equal(resolve("/docs/x.md"), "/ws/docs/x.md");
+  });
+});
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { planParagraphAnchor } from "../src/extension/services/ParagraphAnchorService";
+
+describe("planParagraphAnchor", () => {
+  it("pins a heading's current slug with {#id}, or reuses an explicit one", () => {
+    const md = "# Getting Started #\n\n## Setup {#install}\n";
+    assert.deepEqual(planParagraphAnchor(md, 0, "github"), {
+      id: "getting-started",
+      label: "Getting Started",
+      insert: { line: 0, column: 17, text: " {#getting-started}" }
+    });
+    assert.deepEqual(planParagraphAnchor(md, 2, "github"), { id: "install", label: "Setup" });
+  });
+
+  it("anchors the first line of a paragraph with an ID that does not clash with headings", () => {
+    const md = "# Install now\n\nInstall now with the\npackage manager.\n";
+    assert.deepEqual(planParagraphAnchor(md, 3, "github"), {
+      id: "install-now-with-the-package-manager",
+      label: "Install now with the package manager.",
+      insert: { line: 2, column: 0, text: '<a id="install-now-with-the-package-manager"></a>' }
+    });
+    assert.equal(planParagraphAnchor("# Install now\n\nInstall now\n", 2, "github").id, "install-now-2");
+  });
+
+  it("places the anchor after list and task markers and reuses an existing anchor", () => {
+    const plan = planParagraphAnchor("- [ ] Buy milk\n", 0, "github");
+    assert.deepEqual(plan.insert, { line: 0, column: 6, text: '<a id="buy-milk"></a>' });
+    assert.deepEqual(planParagraphAnchor('- <a id="milk"></a>Buy milk\n', 0, "github"), { id: "milk", label: "Buy milk" });
+  });
+
+  it("refuses code blocks and blank lines", () => {
+    assert.throws(() => planParagraphAnchor("```\ncode\n```\n", 1, "github"), /code block/);
+    assert.throws(() => planParagraphAnchor("a\n\nb\n", 1, "github"), /Place the cursor/);
+  });
+});
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { convertToInlineLinks, convertToReferenceLinks } from "../src/extension/services/ReferenceLinkService";
+import { applyReplacements } from "./helpers";
+
+function toReference(markdown: string): string {
+  return applyReplacements(markdown, convertToReferenceLinks(markdown).replacements);
+}
+
+function toInline(markdown: string): string {
+  return applyReplacements(markdown, convertToInlineLinks(markdown).replacements);
+}
+
+describe("convertToReferenceLinks", () => {
+  it("numbers destinations, reuses labels for the same target and appends definitions", () => {
+    const md = 'See [a](a.md), ![pic](img.png "Pic") and [again](a.md).\n';
+    assert.equal(toReference(md), 'See [a][1], ![pic][2] and [again][1].\n\n[1]: a.md\n[2]: img.png "Pic"\n');
+    assert.equal(convertToReferenceLinks(md).count, 3);
+  });
+
+  it("reuses existing definitions and joins a trailing definition block", () => {
+    const md = "[x](b.md) [y](c.md)\n\n[1]: b.md";
+    assert.equal(toReference(md), "[x][1] [y][2]\n\n[1]: b.md\n[2]: c.md\n");
+  });
+
+  it("keeps angle brackets for destinations with spaces and skips fenced code", () => {
+    const md = "[r](<My Report.pdf>)\n\n```\n[c](code.md)\n```\n";
+    assert.equal(toReference(md), "[r][1]\n\n```\n[c](code.md)\n```\n\n[1]: <My Report.pdf>\n");
+  });
+
+  it("leaves links in inline code and indented code alone", () => {
+    const md = "Type `[a](a.md)` for [b](b.md).\n\n    [c](c.md)\n";
+    assert.equal(toReference(md), "Type `[a](a.md)` for [b][1].\n\n    [c](c.md)\n\n[1]: b.md\n");
+  });
+
+  it("keeps the title out of the destination and converts a badge link as one link", () => {
+    const md = '[![CI](badge.svg)](https://ci.example "Build") [w](https://en.wikipedia.org/wiki/A_(b))\n';
+    assert.equal(
+      toReference(md),
+      '[![CI](badge.svg)][1] [w][2]\n\n[1]: https://ci.example "Build"\n[2]: <https://en.wikipedia.org/wiki/A_(b)>\n'
+    );
+  });
+});
+
+describe("convertToInlineLinks", () => {
+  it("inlines used definitions and removes them with the blank lines before a trailing block", () => {
+    const md = 'Read [the docs][d] and [d][].\n\n[d]: docs.md "Docs"\n';
+    assert.equal(toInline(md), 'Read [the docs](docs.md "Docs") and [d](docs.md "Docs").\n');
+  });
+
+  it("leaves undefined references and unused definitions alone", () => {
+    const md = "[a][missing] [b]\n[unused]: u.md\n\nmore\n";
+    assert.equal(toInline(md), md);
+  });
+
+  it("leaves usages in inline code and indented code alone", () => {
+    const md = "`[a][d]` [d]\n\n    [d][]\n\n[d]: d.md\n";
+    assert.equal(toInline(md), "`[a][d]` [d](d.md)\n\n    [d][]\n");
+  });
+
+  it("round-trips with convertToReferenceLinks", () => {
+    const md = "Text [one](1.md) and ![two](<a b.png>).\n";
+    assert.equal(toInline(toReference(md)), md);
+  });
+});
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createSlugger, type SlugStyle } from "../src/extension/services/SlugService";
+
+function slugs(style: SlugStyle, ...headings: string[]): string[] {
+  const slugify = createSlugger(style);
+  return headings.map((h) => slugify(h));
+}
+
+describe("createSlugger", () => {
+  it("github drops punctuation, keeps Unicode letters and numbers duplicates with -1", () => {
+    assert.deepEqual(slugs("github", "Hello, World!", "Hello, World!", "日本語 見出し", "a -- b"), [
+      "hello-world",
+      "hello-world-1",
+      "日本語-見出し",
+      "a----b"
+    ]);
+  });
+
+  it("gitlab collapses runs of hyphens", () => {
+    assert.deepEqual(slugs("gitlab", "a -- b", "a -- b"), ["a-b", "a-b-1"]);
+  });
+
+  it("azureDevOps keeps punctuation", () => {
+    assert.deepEqual(slugs("azureDevOps", "What's new?"), ["what's-new?"]);
+  });
+
+  it("mkdocs drops non-ASCII and numbers duplicates and empty slugs with _n", () => {
+    assert.deepEqual(slugs("mkdocs", "Café Menu", "Café Menu", "日本語"), ["cafe-menu", "cafe-menu_1", "_1"]);
+  });
+
+  it("pandoc drops leading non-letters and falls back to section", () => {
+    assert.deepEqual(slugs("pandoc", "1. Introduction", "Introduction", "123", "v1.2 Notes"), [
+      "introduction",
+      "introduction-1",
+      "section",
+      "v1.2-notes"
+    ]);
+  });
+});
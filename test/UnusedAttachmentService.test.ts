@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { findUnusedAttachments } from "../src/extension/services/UnusedAttachmentService";
+import { WorkspaceIndex } from "../src/extension/services/WorkspaceIndex";
+import { resetWorkspace, setConfig, setFile } from "./fakes/vscode";
+
+describe("findUnusedAttachments", () => {
+  let index: WorkspaceIndex;
+
+  beforeEach(() => {
+    resetWorkspace("notes");
+    setConfig("quench.attachments.location", "specifiedFolder");
+    setConfig("quench.attachments.folderPath", "assets");
+    index = new WorkspaceIndex(undefined);
+  });
+
+  afterEach(() => index.dispose());
+
+  it("reports only attachments no note references", async () => {
+    setFile("/ws/notes/a.md", "![shot](assets/used.png)\n\n[spec](<assets/My Spec.pdf>)\n");
+    setFile("/ws/notes/assets/used.png", "png");
+    setFile("/ws/notes/assets/My Spec.pdf", "pdf");
+    setFile("/ws/notes/assets/stale.png", "png");
+    await index.initialize();
+
+    const report = await findUnusedAttachments(index);
+    assert.deepEqual(
+      report.unusedAttachments.map((a) => a.uri.path),
+      ["/ws/notes/assets/stale.png"]
+    );
+  });
+
+  it("matches percent-encoded links and ignores query strings", async () => {
+    setFile("/ws/notes/a.md", "![](assets/My%20Shot%20%281%29.png) ![](assets/raw.png?raw=1)\n");
+    setFile("/ws/notes/assets/My Shot (1).png", "png");
+    setFile("/ws/notes/assets/raw.png", "png");
+    await index.initialize();
+
+    assert.deepEqual((await findUnusedAttachments(index)).unusedAttachments, []);
+  });
+
+  it("counts embedded audio and video as references", async () => {
+    setFile(
+      "/ws/notes/a.md",
+      '<audio src="assets/talk.mp3" controls></audio>\n\n<video controls>\n  <source src="assets/demo.webm">\n</video>\n'
+    );
+    setFile("/ws/notes/assets/talk.mp3", "mp3");
+    setFile("/ws/notes/assets/demo.webm", "webm");
+    await index.initialize();
+
+    assert.deepEqual((await findUnusedAttachments(index)).unusedAttachments, []);
+  });
+
+  it("does not count links shown as code", async () => {
+    setFile("/ws/notes/a.md", "Write `![x](assets/a.png)` to embed an image.\n");
+    setFile("/ws/notes/assets/a.png", "png");
+    await index.initialize();
+
+    assert.deepEqual(
+      (await findUnusedAttachments(index)).unusedAttachments.map((a) => a.uri.path),
+      ["/ws/notes/assets/a.png"]
+    );
+  });
+});
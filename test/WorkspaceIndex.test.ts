@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { WorkspaceIndex } from "../src/extension/services/WorkspaceIndex";
+import { emitFileEvent, fileUri, resetWorkspace, setConfig, setFile, workspace } from "./fakes/vscode";
+
+function nextTurn(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("WorkspaceIndex", () => {
+  let index: WorkspaceIndex;
+
+  beforeEach(() => {
+    resetWorkspace("notes");
+    index = new WorkspaceIndex(undefined);
+  });
+
+  afterEach(() => index.dispose());
+
+  it("indexes notes and their backlinks", async () => {
+    const a = setFile("/ws/notes/a.md", "# Alpha\n\nSee [b](b.md).\n");
+    const b = setFile("/ws/notes/b.md", "# Beta\n");
+    await index.initialize();
+
+    assert.equal(index.getNote(a)?.title, "Alpha");
+    assert.deepEqual(
+      index.getBacklinks(b).map((l) => l.sourceUri.toString()),
+      [a.toString()]
+    );
+  });
+
+  it("keeps serving the previous index while a rebuild runs", async () => {
+    const a = setFile("/ws/notes/a.md", "[b](b.md)\n");
+    const b = setFile("/ws/notes/b.md", "# Beta\n");
+    await index.initialize();
+
+    let done = false;
+    const rebuilt = index.rebuild().then(() => (done = true));
+    while (!done) {
+      assert.equal(index.has(a), true);
+      assert.equal(index.getMarkdownFiles().length, 2);
+      assert.equal(index.getBacklinks(b).length, 1);
+      await nextTurn();
+    }
+    await rebuilt;
+  });
+
+  it("queues file events behind a scan in progress", async () => {
+    setFile("/ws/notes/a.md", "# A\n");
+    const initialized = index.initialize();
+    const c = setFile("/ws/notes/c.md", "# C\n");
+    emitFileEvent("create", c);
+    await initialized;
+    await index.whenIdle();
+
+    assert.equal(index.has(c), true);
+    assert.equal(index.getNote(c)?.title, "C");
+  });
+
+  it("re-resolves cached links when the link path style changes", async () => {
+    resetWorkspace("notes", "docs");
+    const a = setFile("/ws/notes/a.md", "[x](/docs/x.md)\n");
+    await index.initialize();
+    assert.equal(index.getLinks(a)[0]?.targetUri, fileUri("/ws/notes/docs/x.md").toString());
+
+    setConfig("quench.links.pathStyle", "folderQualified");
+    await new Promise((resolve) => setTimeout(resolve, 600));
+    await index.whenIdle();
+    assert.equal(index.getLinks(a)[0]?.targetUri, fileUri("/ws/docs/x.md").toString());
+  });
+
+  it("logs a failed scan instead of rejecting", async () => {
+    const findFiles = workspace.findFiles;
+    const error = console.error;
+    const logged: unknown[] = [];
+    workspace.findFiles = async () => {
+      throw new Error("boom");
+    };
+    console.error = (...args: unknown[]) => logged.push(args[0]);
+    try {
+      await index.rebuild();
+      await index.whenIdle();
+    } finally {
+      workspace.findFiles = findFiles;
+      console.error = error;
+    }
+    assert.deepEqual(logged, ["[quench] Index scan failed:"]);
+    assert.equal(index.has(fileUri("/ws/notes/a.md")), false);
+  });
+});
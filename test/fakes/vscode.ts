@@ -0,0 +1,342 @@
+import { Minimatch } from "minimatch";
+import { URI, Utils } from "vscode-uri";
+
+/**
+ * In-memory stand-in for the parts of the `vscode` API the services use, bundled in place of `vscode` by
+ * scripts/test.mjs. Workspace folders live under `file:///ws/`; files, settings and watcher events are driven
+ * through the helpers at the bottom.
+ */
+
+type Listener<T> = (e: T) => unknown;
+
+export class Disposable {
+  constructor(private readonly callOnDispose: () => void = () => {}) {}
+  dispose(): void {
+    this.callOnDispose();
+  }
+}
+
+export type Event<T> = (listener: Listener<T>, thisArgs?: unknown, disposables?: Disposable[]) => Disposable;
+
+export class EventEmitter<T> {
+  private listeners = new Set<Listener<T>>();
+  readonly event: Event<T> = (listener, _thisArgs, disposables) => {
+    this.listeners.add(listener);
+    const d = new Disposable(() => this.listeners.delete(listener));
+    disposables?.push(d);
+    return d;
+  };
+  fire(e: T): void {
+    for (const l of [...this.listeners]) l(e);
+  }
+  dispose(): void {
+    this.listeners.clear();
+  }
+}
+
+export class Uri extends URI {
+  static joinPath(base: URI, ...segments: string[]): URI {
+    return Utils.joinPath(base, ...segments);
+  }
+}
+
+export class Position {
+  constructor(readonly line: number, readonly character: number) {}
+}
+
+export class Range {
+  readonly start: Position;
+  readonly end: Position;
+  constructor(a: Position | number, b: Position | number, c?: number, d?: number) {
+    this.start = typeof a === "number" ? new Position(a, b as number) : a;
+    this.end = typeof a === "number" ? new Position(c ?? 0, d ?? 0) : (b as Position);
+  }
+}
+
+export class Selection extends Range {}
+
+export class Location {
+  constructor(readonly uri: URI, readonly range: Position | Range) {}
+}
+
+export enum FileType {
+  Unknown = 0,
+  File = 1,
+  Directory = 2
+}
+
+export enum DiagnosticSeverity {
+  Error = 0,
+  Warning = 1,
+  Information = 2,
+  Hint = 3
+}
+
+export enum SymbolKind {
+  String = 14
+}
+
+export class Diagnostic {
+  source?: string;
+  code?: string;
+  constructor(readonly range: Range, readonly message: string, readonly severity: DiagnosticSeverity) {}
+}
+
+export class SymbolInformation {
+  constructor(readonly name: string, readonly kind: SymbolKind, readonly containerName: string, readonly location: Location) {}
+}
+
+export class DocumentSymbol {
+  children: DocumentSymbol[] = [];
+  constructor(
+    readonly name: string,
+    readonly detail: string,
+    readonly kind: SymbolKind,
+    readonly range: Range,
+    readonly selectionRange: Range
+  ) {}
+}
+
+export class RelativePattern {
+  readonly baseUri: URI;
+  constructor(base: { uri: URI } | URI, readonly pattern: string) {
+    this.baseUri = base instanceof URI ? base : base.uri;
+  }
+}
+
+export type WorkspaceEditEntry = { uri: URI; range: Range; newText: string; metadata?: { needsConfirmation: boolean; label: string } };
+
+export class WorkspaceEdit {
+  readonly entries: WorkspaceEditEntry[] = [];
+  replace(uri: URI, range: Range, newText: string, metadata?: WorkspaceEditEntry["metadata"]): void {
+    this.entries.push({ uri, range, newText, metadata });
+  }
+  get size(): number {
+    return new Set(this.entries.map((e) => e.uri.toString())).size;
+  }
+}
+
+export class FileSystemError extends Error {
+  static FileNotFound(uri?: URI): FileSystemError {
+    return new FileSystemError(`File not found: ${uri?.toString() ?? ""}`);
+  }
+}
+
+type FakeFile = { bytes: Uint8Array; mtime: number };
+type WorkspaceFolder = { uri: URI; name: string; index: number };
+type FileEventKind = "create" | "change" | "delete";
+type RenamedFile = { oldUri: URI; newUri: URI };
+
+const files = new Map<string, FakeFile>();
+const settings = new Map<string, unknown>();
+const watchers = new Set<{ pattern: Minimatch; emitters: Record<FileEventKind, EventEmitter<URI>> }>();
+const configEmitter = new EventEmitter<{ affectsConfiguration(section: string): boolean }>();
+const willRenameEmitter = new EventEmitter<{ files: RenamedFile[]; waitUntil(thenable: Promise<WorkspaceEdit>): void }>();
+const extensionsEmitter = new EventEmitter<void>();
+const installedExtensions = new Set<string>();
+const symbolProviders = new Set<string>();
+let folders: WorkspaceFolder[] = [];
+let clock = 1;
+
+function parentPaths(p: string): string[] {
+  const out: string[] = [];
+  for (let dir = p.slice(0, p.lastIndexOf("/")); dir.length > 0; dir = dir.slice(0, dir.lastIndexOf("/"))) out.push(dir);
+  return out;
+}
+
+function fileAt(uri: URI): FakeFile {
+  const file = files.get(uri.toString());
+  if (!file) throw FileSystemError.FileNotFound(uri);
+  return file;
+}
+
+export const workspace = {
+  get workspaceFolders(): WorkspaceFolder[] | undefined {
+    return folders.length > 0 ? folders : undefined;
+  },
+  get textDocuments(): { uri: URI; isDirty: boolean; getText(): string }[] {
+    return openDocuments;
+  },
+  getWorkspaceFolder(uri: URI): WorkspaceFolder | undefined {
+    return folders.find((f) => uri.scheme === f.uri.scheme && (uri.path === f.uri.path || uri.path.startsWith(`${f.uri.path}/`)));
+  },
+  asRelativePath(uri: URI): string {
+    const folder = workspace.getWorkspaceFolder(uri);
+    return folder ? uri.path.slice(folder.uri.path.length + 1) : uri.path;
+  },
+  getConfiguration(section: string) {
+    return {
+      get<T>(key: string, defaultValue?: T): T | undefined {
+        const full = `${section}.${key}`;
+        return settings.has(full) ? (settings.get(full) as T) : defaultValue;
+      }
+    };
+  },
+  async findFiles(include: string | RelativePattern, exclude?: string | null): Promise<URI[]> {
+    const includeGlob = typeof include === "string" ? include : include.pattern;
+    const base = typeof include === "string" ? undefined : include.baseUri;
+    const inc = new Minimatch(includeGlob, { dot: true });
+    const exc = exclude ? new Minimatch(exclude, { dot: true }) : undefined;
+    const out: URI[] = [];
+    for (const key of files.keys()) {
+      const uri = URI.parse(key);
+      const folder = base ? { uri: base } : workspace.getWorkspaceFolder(uri);
+      if (!folder || !uri.path.startsWith(`${folder.uri.path}/`)) continue;
+      const rel = uri.path.slice(folder.uri.path.length + 1);
+      if (inc.match(rel) && !exc?.match(rel)) out.push(uri);
+    }
+    return out;
+  },
+  createFileSystemWatcher(glob: string) {
+    const emitters = { create: new EventEmitter<URI>(), change: new EventEmitter<URI>(), delete: new EventEmitter<URI>() };
+    const watcher = { pattern: new Minimatch(glob, { dot: true }), emitters };
+    watchers.add(watcher);
+    return {
+      onDidCreate: emitters.create.event,
+      onDidChange: emitters.change.event,
+      onDidDelete: emitters.delete.event,
+      dispose: () => watchers.delete(watcher)
+    };
+  },
+  onDidChangeConfiguration: configEmitter.event,
+  onDidSaveTextDocument: new EventEmitter<unknown>().event,
+  onDidChangeWorkspaceFolders: new EventEmitter<unknown>().event,
+  onWillRenameFiles: willRenameEmitter.event,
+  onDidRenameFiles: new EventEmitter<unknown>().event,
+  fs: {
+    async readFile(uri: URI): Promise<Uint8Array> {
+      return fileAt(uri).bytes;
+    },
+    async writeFile(uri: URI, bytes: Uint8Array): Promise<void> {
+      files.set(uri.toString(), { bytes, mtime: clock++ });
+    },
+    async copy(source: URI, target: URI): Promise<void> {
+      files.set(target.toString(), { bytes: fileAt(source).bytes, mtime: clock++ });
+    },
+    async delete(uri: URI): Promise<void> {
+      files.delete(uri.toString());
+    },
+    async createDirectory(): Promise<void> {},
+    async stat(uri: URI): Promise<{ type: FileType; size: number; mtime: number; ctime: number }> {
+      const file = files.get(uri.toString());
+      if (file) return { type: FileType.File, size: file.bytes.length, mtime: file.mtime, ctime: 0 };
+      const isDir = [...files.keys()].some((k) => parentPaths(URI.parse(k).path).includes(uri.path));
+      if (!isDir) throw FileSystemError.FileNotFound(uri);
+      return { type: FileType.Directory, size: 0, mtime: 0, ctime: 0 };
+    },
+    async readDirectory(uri: URI): Promise<[string, FileType][]> {
+      const out = new Map<string, FileType>();
+      for (const key of files.keys()) {
+        const p = URI.parse(key).path;
+        if (!p.startsWith(`${uri.path}/`)) continue;
+        const rest = p.slice(uri.path.length + 1);
+        const slash = rest.indexOf("/");
+        out.set(slash === -1 ? rest : rest.slice(0, slash), slash === -1 ? FileType.File : FileType.Directory);
+      }
+      if (out.size === 0) throw FileSystemError.FileNotFound(uri);
+      return [...out];
+    }
+  }
+};
+
+const openDocuments: { uri: URI; isDirty: boolean; getText(): string }[] = [];
+
+export const window = {
+  async showInformationMessage(): Promise<undefined> {
+    return undefined;
+  },
+  async showWarningMessage(): Promise<undefined> {
+    return undefined;
+  },
+  async showErrorMessage(): Promise<undefined> {
+    return undefined;
+  },
+  setStatusBarMessage(): Disposable {
+    return new Disposable();
+  }
+};
+
+export const extensions = {
+  getExtension(id: string): { id: string } | undefined {
+    return installedExtensions.has(id) ? { id } : undefined;
+  },
+  onDidChange: extensionsEmitter.event
+};
+
+function registerSymbolProvider(kind: string): Disposable {
+  symbolProviders.add(kind);
+  return new Disposable(() => symbolProviders.delete(kind));
+}
+
+export const languages = {
+  registerDocumentSymbolProvider: () => registerSymbolProvider("document"),
+  registerWorkspaceSymbolProvider: () => registerSymbolProvider("workspace"),
+  createDiagnosticCollection() {
+    const entries = new Map<string, Diagnostic[]>();
+    return {
+      entries,
+      set: (uri: URI, diagnostics: Diagnostic[]) => entries.set(uri.toString(), diagnostics),
+      delete: (uri: URI) => entries.delete(uri.toString()),
+      get: (uri: URI) => entries.get(uri.toString()),
+      clear: () => entries.clear(),
+      dispose: () => entries.clear()
+    };
+  }
+};
+
+// ---- Test helpers ----
+
+/** Starts from an empty workspace with one folder per name (`file:///ws/<name>`). */
+export function resetWorkspace(...names: string[]): void {
+  files.clear();
+  settings.clear();
+  watchers.clear();
+  openDocuments.length = 0;
+  installedExtensions.clear();
+  symbolProviders.clear();
+  folders = names.map((name, index) => ({ uri: URI.file(`/ws/${name}`), name, index }));
+}
+
+export function fileUri(p: string): URI {
+  return URI.file(p);
+}
+
+export function setFile(p: string, content: string | Uint8Array): URI {
+  const uri = URI.file(p);
+  files.set(uri.toString(), { bytes: typeof content === "string" ? Buffer.from(content, "utf8") : content, mtime: clock++ });
+  return uri;
+}
+
+export function hasFile(p: string): boolean {
+  return files.has(URI.file(p).toString());
+}
+
+export function setConfig(key: string, value: unknown): void {
+  settings.set(key, value);
+  configEmitter.fire({ affectsConfiguration: (section) => key === section || key.startsWith(`${section}.`) });
+}
+
+/** Fires the event on every watcher whose glob matches the workspace-relative path of `uri`. */
+export function emitFileEvent(kind: FileEventKind, uri: URI): void {
+  const rel = workspace.asRelativePath(uri);
+  for (const w of [...watchers]) if (w.pattern.match(rel)) w.emitters[kind].fire(uri);
+}
+
+/** Fires `onWillRenameFiles` and resolves to the edits its listeners passed to `waitUntil`. */
+export function emitWillRenameFiles(files: RenamedFile[]): Promise<WorkspaceEdit[]> {
+  const edits: Promise<WorkspaceEdit>[] = [];
+  willRenameEmitter.fire({ files, waitUntil: (thenable) => edits.push(thenable) });
+  return Promise.all(edits);
+}
+
+/** Enables or disables an extension as seen by `extensions.getExtension`, firing `extensions.onDidChange`. */
+export function setExtensionEnabled(id: string, enabled: boolean): void {
+  if (enabled) installedExtensions.add(id);
+  else installedExtensions.delete(id);
+  extensionsEmitter.fire();
+}
+
+/** Kinds (`document`, `workspace`) of the symbol providers currently registered. */
+export function registeredSymbolProviders(): string[] {
+  return [...symbolProviders].sort();
+}
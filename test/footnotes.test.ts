@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { collectFootnoteDefinitions, findFootnoteReferences, nextFootnoteLabel, parseFootnoteDefinition } from "../src/shared/footnotes";
+
+describe("parseFootnoteDefinition", () => {
+  it("returns the label columns and the text after the colon", () => {
+    assert.deepEqual(parseFootnoteDefinition("[^note]: Some text"), { label: "note", from: 0, to: 7, content: "Some text" });
+  });
+
+  it("rejects references and indented code", () => {
+    assert.equal(parseFootnoteDefinition("See [^note]."), null);
+    assert.equal(parseFootnoteDefinition("    [^note]: code"), null);
+  });
+});
+
+describe("collectFootnoteDefinitions", () => {
+  it("joins indented continuation lines and records the last line", () => {
+    const defs = collectFootnoteDefinitions(["[^1]: First", "    second", "", "    third", "", "Prose"]);
+    const def = defs.get("1");
+    assert.equal(def?.text, "First\nsecond\n\nthird");
+    assert.equal(def?.endLine, 3);
+  });
+
+  it("keeps the first definition of a label and skips fenced code", () => {
+    const defs = collectFootnoteDefinitions(["```", "[^a]: fenced", "```", "[^A]: one", "[^a]: two"]);
+    assert.equal(defs.get("a")?.text, "one");
+    assert.equal(defs.get("a")?.line, 3);
+  });
+});
+
+describe("findFootnoteReferences", () => {
+  it("finds references but not the definition label, inline code or escaped brackets", () => {
+    const refs = findFootnoteReferences("[^a]: see [^b] and `[^c]` and \\[^d]");
+    assert.deepEqual(
+      refs.map((r) => [r.label, r.from, r.to]),
+      [["b", 10, 14]]
+    );
+  });
+});
+
+describe("nextFootnoteLabel", () => {
+  it("is one more than the largest numeric label", () => {
+    assert.equal(nextFootnoteLabel(["Text[^2] and[^note].", "", "[^7]: def"]), "8");
+    assert.equal(nextFootnoteLabel(["No notes."]), "1");
+  });
+});
@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { findExplicitHeadingId, findHtmlAnchorIds } from "../src/shared/headingIds";
+
+describe("findExplicitHeadingId", () => {
+  it("reads `{#id}` and `{#id .class}` suffixes, including the whitespace before them", () => {
+    assert.deepEqual(findExplicitHeadingId("Setup {#setup}"), { id: "setup", from: 5, to: 14 });
+    assert.equal(findExplicitHeadingId("Setup {#setup .wide key=v}")?.id, "setup");
+  });
+
+  it("ignores braces that are not a trailing ID", () => {
+    assert.equal(findExplicitHeadingId("Setup {#setup} more"), null);
+    assert.equal(findExplicitHeadingId("Use {braces}"), null);
+  });
+});
+
+describe("findHtmlAnchorIds", () => {
+  it("finds `id` on any element and `name` only on `<a>`", () => {
+    const ids = findHtmlAnchorIds(`<a name="top"></a> <span id='x'>y</span> <input name="q">`);
+    assert.deepEqual(
+      ids.map((m) => m.id),
+      ["top", "x"]
+    );
+  });
+
+  it("skips inline code spans", () => {
+    assert.deepEqual(findHtmlAnchorIds('Write `<a id="no">` for <a id="yes">'), [{ id: "yes", from: 24, to: 36 }]);
+  });
+});
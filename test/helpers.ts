@@ -0,0 +1,8 @@
+import type { TextReplacement } from "../src/extension/services/ReferenceLinkService";
+
+/** Applies non-overlapping replacements given in document offsets, as the commands do through a WorkspaceEdit. */
+export function applyReplacements(text: string, replacements: readonly TextReplacement[]): string {
+  let out = text;
+  for (const r of [...replacements].sort((a, b) => b.from - a.from)) out = out.slice(0, r.from) + r.text + out.slice(r.to);
+  return out;
+}
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { JSDOM } from "jsdom";
+import { htmlToMarkdown } from "../src/webview/htmlToMarkdown";
+
+before(() => {
+  const { window } = new JSDOM();
+  Object.assign(globalThis, { DOMParser: window.DOMParser, Node: window.Node, Element: window.Element });
+});
+
+describe("htmlToMarkdown", () => {
+  it("converts headings, paragraphs and inline formatting", () => {
+    assert.equal(
+      htmlToMarkdown("<h2>Title</h2><p>Some <b>bold</b>, <em>italic</em> and <code>code</code>.</p>"),
+      "## Title\n\nSome **bold**, *italic* and `code`."
+    );
+  });
+
+  it("converts nested lists", () => {
+    assert.equal(htmlToMarkdown("<ul><li>One<ul><li>Inner</li></ul></li><li>Two</li></ul><ol><li>First</li></ol>"), "- One\n  - Inner\n- Two\n\n1. First");
+  });
+
+  it("keeps remote links and images but only the text of relative or script links", () => {
+    assert.equal(
+      htmlToMarkdown('<p><a href="https://example.com">site</a> <a href="page.html">local</a> <a href="javascript:x()">js</a> <img src="https://example.com/a.png" alt="remote"><img src="data:image/png;base64,AA" alt="inline"></p>'),
+      "[site](https://example.com) local js ![remote](https://example.com/a.png)inline"
+    );
+  });
+
+  it("converts tables and code blocks", () => {
+    assert.equal(
+      htmlToMarkdown("<table><tr><th>A</th><th>B</th></tr><tr><td>1</td><td>x|y</td></tr></table><pre><code>a\n\nb</code></pre>"),
+      "| A | B |\n| --- | --- |\n| 1 | x\\|y |\n\n```\na\n\nb\n```"
+    );
+  });
+
+  it("drops scripts and styles and escapes Markdown syntax in text", () => {
+    assert.equal(htmlToMarkdown("<style>p{}</style><script>x</script><p>1. not *a* list</p>"), "1\\. not \\*a\\* list");
+  });
+});
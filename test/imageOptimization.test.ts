@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { processImage, type ImageOptimizationSettings } from "../src/webview/imageOptimization";
+
+// Keeping the format without a size limit strips metadata losslessly, which needs no canvas.
+const stripOnly: ImageOptimizationSettings = { format: "keep", maxWidth: 0, maxHeight: 0, stripMetadata: true, quality: 85 };
+
+function ascii(text: string): number[] {
+  return [...text].map((c) => c.charCodeAt(0));
+}
+
+function u32be(n: number): number[] {
+  return [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+}
+
+function u32le(n: number): number[] {
+  return u32be(n).reverse();
+}
+
+function jpegSegment(marker: number, payload: number[]): number[] {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+}
+
+function pngChunk(type: string, data: number[]): number[] {
+  return [...u32be(data.length), ...ascii(type), ...data, 0, 0, 0, 0];
+}
+
+function webpChunk(type: string, data: number[]): number[] {
+  return [...ascii(type), ...u32le(data.length), ...data, ...(data.length % 2 ? [0] : [])];
+}
+
+async function strip(bytes: number[], mime: string): Promise<number[]> {
+  const result = await processImage(new Blob([new Uint8Array(bytes)], { type: mime }), "image", stripOnly);
+  return [...result.bytes];
+}
+
+describe("processImage metadata stripping", () => {
+  it("drops JPEG EXIF, XMP and comments but keeps JFIF, the ICC profile and the image data", async () => {
+    const jfif = jpegSegment(0xe0, ascii("JFIF\0"));
+    const icc = jpegSegment(0xe2, ascii("ICC_PROFILE\0"));
+    const scan = [...jpegSegment(0xda, [1, 2, 3]), 9, 9, 0xff, 0xd9];
+    const input = [0xff, 0xd8, ...jfif, ...jpegSegment(0xe1, ascii("Exif\0\0MM")), ...icc, ...jpegSegment(0xfe, ascii("hi")), ...scan];
+    assert.deepEqual(await strip(input, "image/jpeg"), [0xff, 0xd8, ...jfif, ...icc, ...scan]);
+  });
+
+  it("drops PNG text, time and EXIF chunks", async () => {
+    const signature = [0x89, ...ascii("PNG\r\n"), 0x1a, 0x0a];
+    const ihdr = pngChunk("IHDR", new Array(13).fill(0));
+    const idat = pngChunk("IDAT", [1, 2, 3]);
+    const iend = pngChunk("IEND", []);
+    const input = [...signature, ...ihdr, ...pngChunk("tEXt", ascii("Author\0me")), ...pngChunk("tIME", [0, 0, 0, 0, 0, 0, 0]), ...idat, ...iend];
+    assert.deepEqual(await strip(input, "image/png"), [...signature, ...ihdr, ...idat, ...iend]);
+  });
+
+  it("drops WebP EXIF and XMP chunks, clears their flags and fixes the RIFF size", async () => {
+    const vp8x = webpChunk("VP8X", [0x0c | 0x10, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+    const image = webpChunk("VP8L", [1, 2, 3]);
+    const body = [...ascii("WEBP"), ...vp8x, ...image, ...webpChunk("EXIF", [1, 2]), ...webpChunk("XMP ", [3])];
+    const output = await strip([...ascii("RIFF"), ...u32le(body.length), ...body], "image/webp");
+    const expectedBody = [...ascii("WEBP"), ...webpChunk("VP8X", [0x10, 0, 0, 0, 0, 0, 0, 0, 0, 0]), ...image];
+    assert.deepEqual(output, [...ascii("RIFF"), ...u32le(expectedBody.length), ...expectedBody]);
+  });
+
+  it("passes GIF and malformed files through untouched", async () => {
+    const gif = ascii("GIF89a");
+    assert.deepEqual(await strip(gif, "image/gif"), gif);
+    const broken = [0xff, 0xd8, 0xff, 0xe1, 0xff, 0xff, 1];
+    assert.deepEqual(await strip(broken, "image/jpeg"), broken);
+  });
+});
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { filterNoteGraph, type NoteGraph, type NoteGraphFilter } from "../src/shared/noteGraph";
+
+// a - b - c - d, with e isolated.
+const graph: NoteGraph = {
+  nodes: [
+    { id: "a", title: "A", path: "notes/a.md", tags: ["Project"], orphan: false },
+    { id: "b", title: "B", path: "archive/b.md", tags: [], orphan: false },
+    { id: "c", title: "C", path: "notes/c.md", tags: ["project"], orphan: false },
+    { id: "d", title: "D", path: "notes/d.md", tags: [], orphan: false },
+    { id: "e", title: "E", path: "notes/sub/e.md", tags: [], orphan: true }
+  ],
+  edges: [
+    { source: "a", target: "b" },
+    { source: "c", target: "b" },
+    { source: "c", target: "d" }
+  ]
+};
+const all: NoteGraphFilter = { folder: "", tag: "", depth: 0, centerId: null };
+const ids = (g: NoteGraph) => g.nodes.map((n) => n.id);
+
+describe("filterNoteGraph", () => {
+  it("returns everything without a filter", () => {
+    assert.deepEqual(filterNoteGraph(graph, all), graph);
+  });
+
+  it("filters by folder prefix and case-insensitive tag, dropping dangling edges", () => {
+    assert.deepEqual(ids(filterNoteGraph(graph, { ...all, folder: "notes/" })), ["a", "c", "d", "e"]);
+    const tagged = filterNoteGraph(graph, { ...all, tag: "PROJECT" });
+    assert.deepEqual(ids(tagged), ["a", "c"]);
+    assert.deepEqual(tagged.edges, []);
+  });
+
+  it("walks the local graph in both link directions", () => {
+    assert.deepEqual(ids(filterNoteGraph(graph, { ...all, depth: 1, centerId: "b" })), ["a", "b", "c"]);
+    assert.deepEqual(ids(filterNoteGraph(graph, { ...all, depth: 2, centerId: "a" })), ["a", "b", "c"]);
+  });
+
+  it("walks past filtered-out notes and always keeps the center", () => {
+    const local = filterNoteGraph(graph, { folder: "notes", tag: "", depth: 3, centerId: "b" });
+    assert.deepEqual(ids(local), ["a", "b", "c", "d"]);
+    assert.deepEqual(local.edges, graph.edges);
+  });
+});
@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isPastedUrl, parseFileReference } from "../src/shared/pasteLinks";
+
+describe("isPastedUrl", () => {
+  it("accepts a single http(s) or mailto URL", () => {
+    assert.equal(isPastedUrl(" https://example.com/a?b=c "), true);
+    assert.equal(isPastedUrl("mailto:me@example.com"), true);
+    assert.equal(isPastedUrl("see https://example.com"), false);
+    assert.equal(isPastedUrl("ftp://example.com"), false);
+  });
+});
+
+describe("parseFileReference", () => {
+  it("reads paths with a line and column suffix", () => {
+    assert.deepEqual(parseFileReference("src/main.ts:12:5"), { target: "src/main.ts", isUri: false, line: 12, column: 5 });
+    assert.deepEqual(parseFileReference("docs/guide.md#L7"), { target: "docs/guide.md", isUri: false, line: 7, column: undefined });
+  });
+
+  it("accepts absolute paths, quoted paths and file URIs", () => {
+    assert.equal(parseFileReference('"/home/me/My Notes/a.md"')?.target, "/home/me/My Notes/a.md");
+    assert.equal(parseFileReference("C:\\work\\a.txt")?.target, "C:\\work\\a.txt");
+    assert.deepEqual(parseFileReference("file:///tmp/a%20b.md"), { target: "file:///tmp/a%20b.md", isUri: true, line: undefined, column: undefined });
+  });
+
+  it("rejects prose, Markdown and other schemes", () => {
+    assert.equal(parseFileReference("hello"), null);
+    assert.equal(parseFileReference("one two three four.md"), null);
+    assert.equal(parseFileReference("[a](b.md)"), null);
+    assert.equal(parseFileReference("vscode:extension/foo"), null);
+    assert.equal(parseFileReference("a.md\nb.md"), null);
+  });
+});
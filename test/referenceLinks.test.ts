@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  collectLinkDefinitions,
+  findInlineLinks,
+  findReferenceLinks,
+  forEachLineOutsideFences,
+  forEachProseLine,
+  maskCodeSpans,
+  normalizeReferenceLabel,
+  parseLinkDefinition
+} from "../src/shared/referenceLinks";
+
+describe("parseLinkDefinition", () => {
+  it("reads the label, destination and title", () => {
+    assert.deepEqual(parseLinkDefinition('[Docs]: ./docs/index.md "The docs"', 3), {
+      label: "Docs",
+      href: "./docs/index.md",
+      title: "The docs",
+      line: 3,
+      hrefFrom: 8,
+      hrefTo: 23
+    });
+  });
+
+  it("unwraps angle-bracketed destinations and points the columns inside the brackets", () => {
+    const def = parseLinkDefinition("[a]: <my file.md>", 0);
+    assert.equal(def?.href, "my file.md");
+    assert.equal("[a]: <my file.md>".slice(def?.hrefFrom, def?.hrefTo), "my file.md");
+  });
+
+  it("does not treat footnote definitions or indented code as link definitions", () => {
+    assert.equal(parseLinkDefinition("[^1]: a footnote", 0), null);
+    assert.equal(parseLinkDefinition("    [a]: b", 0), null);
+  });
+});
+
+describe("collectLinkDefinitions", () => {
+  it("keys definitions by normalized label and keeps the first one", () => {
+    const defs = collectLinkDefinitions(["[Foo  Bar]: a.md", "[foo bar]: b.md"]);
+    assert.equal(defs.get("foo bar")?.href, "a.md");
+    assert.equal(defs.size, 1);
+  });
+
+  it("skips fenced code blocks", () => {
+    assert.equal(collectLinkDefinitions(["```", "[a]: b.md", "```"]).size, 0);
+  });
+});
+
+describe("findReferenceLinks", () => {
+  const defined = (key: string) => key === "ref";
+
+  it("finds full, collapsed and defined shortcut references", () => {
+    const found = findReferenceLinks("[text][Ref] and [ref][] and [ref] and ![img][ref]", defined);
+    assert.deepEqual(
+      found.map((r) => [r.kind, r.text, r.key, r.image]),
+      [
+        ["full", "text", "ref", false],
+        ["collapsed", "ref", "ref", false],
+        ["shortcut", "ref", "ref", false],
+        ["full", "img", "ref", true]
+      ]
+    );
+  });
+
+  it("skips inline code spans", () => {
+    assert.deepEqual(
+      findReferenceLinks("`[a][ref]` and [b][ref]", defined).map((r) => [r.text, r.from]),
+      [["b", 15]]
+    );
+  });
+
+  it("ignores undefined shortcuts, inline links, footnotes and escaped brackets", () => {
+    assert.deepEqual(findReferenceLinks("- [ ] task [x] [a](b.md) [^1] \\[ref]", defined), []);
+  });
+});
+
+describe("findInlineLinks", () => {
+  it("separates the destination from its title and angle brackets", () => {
+    const line = '[a](doc.md "Title") ![b](<My File (1).png> \'T\') [c]( x.md )';
+    assert.deepEqual(
+      findInlineLinks(line).map((l) => [l.image, l.text, l.href, l.title, line.slice(l.hrefFrom, l.hrefTo)]),
+      [
+        [false, "a", "doc.md", "Title", "doc.md"],
+        [true, "b", "My File (1).png", "T", "My File (1).png"],
+        [false, "c", "x.md", undefined, "x.md"]
+      ]
+    );
+  });
+
+  it("keeps balanced parentheses in bare destinations", () => {
+    assert.deepEqual(
+      findInlineLinks("[w](https://en.wikipedia.org/wiki/Foo_(bar)) after").map((l) => l.href),
+      ["https://en.wikipedia.org/wiki/Foo_(bar)"]
+    );
+  });
+
+  it("finds an image inside a link's text", () => {
+    assert.deepEqual(
+      findInlineLinks("[![badge](b.svg)](https://ci.example)").map((l) => [l.image, l.href, l.from, l.to]),
+      [
+        [false, "https://ci.example", 0, 37],
+        [true, "b.svg", 1, 16]
+      ]
+    );
+  });
+
+  it("skips code spans, escaped brackets and empty destinations", () => {
+    assert.deepEqual(findInlineLinks("`[a](a.md)` ``x `[b](b.md)` y`` \\[c](c.md) [d]()"), []);
+  });
+});
+
+it("maskCodeSpans blanks matching backtick runs only", () => {
+  const blank = (code: string) => " ".repeat(code.length);
+  assert.equal(maskCodeSpans("a `b` c ``d ` e`` f"), `a ${blank("`b`")} c ${blank("``d ` e``")} f`);
+  assert.equal(maskCodeSpans("unclosed `code"), "unclosed `code");
+});
+
+describe("forEachProseLine", () => {
+  function prose(lines: string[]): number[] {
+    const seen: number[] = [];
+    forEachProseLine(lines, (text, line) => {
+      if (text.trim().length > 0) seen.push(line);
+    });
+    return seen;
+  }
+
+  it("skips indented code after a blank line but not paragraph continuations", () => {
+    assert.deepEqual(prose(["Para", "    continued", "", "    code", "\tmore code", "", "Text"]), [0, 1, 6]);
+  });
+
+  it("keeps indented content of list items and footnote definitions", () => {
+    assert.deepEqual(prose(["- item", "", "    more of the item", "", "[^1]: note", "", "    more of the note"]), [0, 2, 4, 6]);
+    assert.deepEqual(prose(["- item", "", "Para", "", "    code"]), [0, 2]);
+  });
+});
+
+describe("forEachLineOutsideFences", () => {
+  it("skips fenced blocks, including a longer closing fence", () => {
+    const seen: number[] = [];
+    forEachLineOutsideFences(["a", "````md", "```", "b", "`````", "c", "~~~", "d"], (_t, line) => seen.push(line));
+    assert.deepEqual(seen, [0, 5]);
+  });
+});
+
+it("normalizeReferenceLabel folds case and whitespace", () => {
+  assert.equal(normalizeReferenceLabel("  Foo \t BAR "), "foo bar");
+});